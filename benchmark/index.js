@@ -5,10 +5,14 @@ import * as smV2 from 'sm-crypto-v2'
 const msg = 'Hello world~!'
 const longMsg = msg.repeat(10000)
 const keypair = smV2.sm2.generateKeyPairHex('12345678901234567890')
+const keypairBytes = { privateKey: smV2.sm2.hexToArray(keypair.privateKey), publicKey: smV2.sm2.hexToArray(keypair.publicKey) }
+const msgBytes = new TextEncoder().encode(msg)
+const longMsgBytes = new TextEncoder().encode(longMsg)
 
 run(async () => {
   await smV2.sm2.initRNGPool()
   const sig = smV2.sm2.doSignature(msg, keypair.privateKey, { publicKey: keypair.publicKey})
+  const longCipher = smV2.sm2.doEncrypt(longMsg, keypair.publicKey)
 
   const RAM = !!process.env.RAM
 
@@ -20,10 +24,28 @@ run(async () => {
   await mark('sm2 encrypt', 500, () => backend.sm2.doEncrypt(msg, keypair.publicKey));
   await mark('sm2 sign', 500, () => backend.sm2.doSignature(msg, keypair.privateKey, { publicKey: keypair.publicKey}));
   await mark('sm2 verify', 500, () => backend.sm2.doVerifySignature(msg, sig, keypair.publicKey));
+  await mark('sm2 encrypt long', 50, () => backend.sm2.doEncrypt(longMsg, keypair.publicKey));
+  await mark('sm2 decrypt long', 50, () => backend.sm2.doDecrypt(longCipher, keypair.privateKey));
   await mark('sm3 hash', 1000, () => backend.default.sm3(longMsg))
   await mark('sm3 hmac', 1000, () => backend.default.sm3(longMsg, { key: 'asdfgh' }))
   await mark('sm4 encrypt', 1000, () => backend.default.sm4.encrypt('hello world! 我是 juneandgreen.'.repeat(1000), '0123456789abcdeffedcba9876543210'))
   await mark('sm4 decrypt', 1000, () => backend.default.sm4.decrypt('681edf34d206965e86b3e94f536e4246002a8a4efa863ccad024ac0300bb40d2'.repeat(1000), '0123456789abcdeffedcba9876543210'))
 
+  // 16 进制接口与字节接口并排对比，省去 16 进制串转换的收益
+  const sigBytes = smV2.sm2.hexToArray(sig)
+  const longCipherBytes = smV2.sm2.hexToArray(longCipher)
+  console.log()
+  console.log('=== sm-crypto-v2: hex vs bytes ===')
+  await mark('sm2 encrypt', 500, () => smV2.sm2.doEncrypt(msg, keypair.publicKey));
+  await mark('sm2 encryptBytes', 500, () => smV2.sm2.encryptBytes(msgBytes, keypairBytes.publicKey));
+  await mark('sm2 sign', 500, () => smV2.sm2.doSignature(msg, keypair.privateKey, { publicKey: keypair.publicKey }));
+  await mark('sm2 signBytes', 500, () => smV2.sm2.signBytes(msgBytes, keypairBytes.privateKey, { publicKey: keypairBytes.publicKey }));
+  await mark('sm2 verify', 500, () => smV2.sm2.doVerifySignature(msg, sig, keypair.publicKey));
+  await mark('sm2 verifyBytes', 500, () => smV2.sm2.verifyBytes(msgBytes, sigBytes, keypairBytes.publicKey));
+  await mark('sm2 encrypt long', 50, () => smV2.sm2.doEncrypt(longMsg, keypair.publicKey));
+  await mark('sm2 encryptBytes long', 50, () => smV2.sm2.encryptBytes(longMsgBytes, keypairBytes.publicKey));
+  await mark('sm2 decrypt long', 50, () => smV2.sm2.doDecrypt(longCipher, keypair.privateKey));
+  await mark('sm2 decryptBytes long', 50, () => smV2.sm2.decryptBytes(longCipherBytes, keypairBytes.privateKey));
+
   if (RAM) utils.logMem();
 });
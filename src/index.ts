@@ -1,5 +1,6 @@
 export * as sm2 from './sm2/index'
 export { kdf } from './sm2/kdf'
 export { hkdf } from './sm3/hkdf'
+export { pbkdf2 } from './sm3/pbkdf2'
 export { sm3 } from './sm3/index'
 export * as sm4 from './sm4/index'
@@ -1,7 +1,7 @@
 /* eslint-disable class-methods-use-this */
 
 import * as utils from '@noble/curves/abstract/utils';
-import { ONE } from './bn';
+import { ONE, ZERO } from './bn';
 import { utf8ToHex } from './utils';
 
 export function bigintToValue(bigint: bigint) {
@@ -29,7 +29,7 @@ export function bigintToValue(bigint: bigint) {
   return h
 }
 
-class ASN1Object {
+export class ASN1Object {
   constructor(
     public tlv: string | null = null,
     public t = '00',
@@ -69,12 +69,12 @@ class ASN1Object {
   }
 }
 
-class DERInteger extends ASN1Object {
+export class DERInteger extends ASN1Object {
   constructor(bigint: bigint) {
     super()
 
     this.t = '02' // 整型标签说明
-    if (bigint) this.v = bigintToValue(bigint)
+    this.v = bigintToValue(bigint)
   }
 
   getValue() {
@@ -82,7 +82,7 @@ class DERInteger extends ASN1Object {
   }
 }
 
-class DEROctetString extends ASN1Object {
+export class DEROctetString extends ASN1Object {
   public hV: string = ''
   constructor(public s: string) {
     super()
@@ -96,7 +96,7 @@ class DEROctetString extends ASN1Object {
   }
 }
 
-class DERSequence extends ASN1Object {
+export class DERSequence extends ASN1Object {
   public t = '30'
   constructor(public asn1Array: ASN1Object[]) {
     super()
@@ -108,6 +108,183 @@ class DERSequence extends ASN1Object {
   }
 }
 
+/**
+ * SET OF，der 编码要求按编码结果排序
+ */
+export class DERSet extends ASN1Object {
+  public t = '31'
+  constructor(public asn1Array: ASN1Object[]) {
+    super()
+  }
+
+  getValue() {
+    this.v = this.asn1Array.map(asn1Object => asn1Object.getEncodedHex()).sort().join('')
+    return this.v
+  }
+}
+
+export class DERObjectIdentifier extends ASN1Object {
+  constructor(oid: string) {
+    super()
+
+    this.t = '06'
+    this.v = oidToHex(oid)
+  }
+
+  getValue() {
+    return this.v
+  }
+}
+
+export class DERBitString extends ASN1Object {
+  constructor(hex: string, unusedBits = 0) {
+    super()
+
+    this.t = '03'
+    this.v = leftPadByte(unusedBits) + hex.toLowerCase()
+  }
+
+  getValue() {
+    return this.v
+  }
+}
+
+export class DERNull extends ASN1Object {
+  constructor() {
+    super()
+
+    this.t = '05'
+  }
+}
+
+export class DERBoolean extends ASN1Object {
+  constructor(value: boolean) {
+    super()
+
+    this.t = '01'
+    this.v = value ? 'ff' : '00'
+  }
+
+  getValue() {
+    return this.v
+  }
+}
+
+/**
+ * 字符串类型，默认为 UTF8String
+ */
+export class DERString extends ASN1Object {
+  constructor(str: string, t = '0c') {
+    super()
+
+    this.t = t
+    this.v = utf8ToHex(str)
+  }
+
+  getValue() {
+    return this.v
+  }
+}
+
+/**
+ * 时间类型，2050 年之前使用 UTCTime，之后使用 GeneralizedTime
+ */
+export class DERTime extends ASN1Object {
+  constructor(date: Date) {
+    super()
+
+    const iso = date.toISOString()
+    const digits = iso.substring(0, 19).replace(/[-T:]/g, '')
+    if (date.getUTCFullYear() >= 1950 && date.getUTCFullYear() < 2050) {
+      this.t = '17'
+      this.v = utf8ToHex(digits.substring(2) + 'Z')
+    } else {
+      this.t = '18'
+      this.v = utf8ToHex(digits + 'Z')
+    }
+  }
+
+  getValue() {
+    return this.v
+  }
+}
+
+/**
+ * 上下文标签，explicit 为显式标签，否则为隐式标签（直接替换被包装对象的标签）
+ */
+export class DERTaggedObject extends ASN1Object {
+  constructor(public tagNo: number, public obj: ASN1Object, public explicit = true) {
+    super()
+  }
+
+  getEncodedHex() {
+    if (!this.tlv) {
+      if (this.explicit) {
+        this.t = leftPadByte(0xa0 | this.tagNo)
+        this.v = this.obj.getEncodedHex()
+        this.l = this.getLength()
+        this.tlv = this.t + this.l + this.v
+      } else {
+        const inner = this.obj.getEncodedHex()
+        const constructed = parseInt(inner.substring(0, 2), 16) & 0x20
+        this.tlv = leftPadByte(0x80 | constructed | this.tagNo) + inner.substring(2)
+      }
+    }
+    return this.tlv
+  }
+}
+
+/**
+ * 已经编码好的 der 数据
+ */
+export class DERRaw extends ASN1Object {
+  constructor(tlv: string) {
+    super(tlv.toLowerCase())
+  }
+}
+
+function leftPadByte(n: number) {
+  const hex = n.toString(16)
+  return hex.length === 1 ? '0' + hex : hex
+}
+
+/**
+ * OID 字符串转 der 编码值
+ */
+export function oidToHex(oid: string) {
+  const parts = oid.split('.').map(part => BigInt(part))
+  if (parts.length < 2) throw new Error('invalid object identifier: ' + oid)
+  const arcs = [parts[0] * BigInt(40) + parts[1], ...parts.slice(2)]
+  return arcs.map(arc => {
+    const bytes = [Number(arc & BigInt(0x7f))]
+    arc >>= BigInt(7)
+    while (arc > ZERO) {
+      bytes.unshift(Number(arc & BigInt(0x7f)) | 0x80)
+      arc >>= BigInt(7)
+    }
+    return bytes.map(leftPadByte).join('')
+  }).join('')
+}
+
+/**
+ * der 编码值转 OID 字符串
+ */
+export function hexToOid(hex: string) {
+  const arcs: bigint[] = []
+  let arc = ZERO
+  for (let i = 0; i < hex.length; i += 2) {
+    const byte = parseInt(hex.substring(i, i + 2), 16)
+    arc = (arc << BigInt(7)) | BigInt(byte & 0x7f)
+    if (!(byte & 0x80)) {
+      arcs.push(arc)
+      arc = ZERO
+    }
+  }
+  if (!arcs.length) throw new Error('invalid object identifier')
+  const first = arcs[0] < BigInt(80) ? arcs[0] / BigInt(40) : BigInt(2)
+  return [first, arcs[0] - first * BigInt(40), ...arcs.slice(1)].join('.')
+}
+
 /**
  * 获取 l 占用字节数
  */
@@ -214,3 +391,131 @@ export function decodeEnc(input: string) {
 
   return { x, y, hash, cipher };
 }
+
+export interface ASN1Node {
+  /** 标签字节 */
+  tag: number
+  /** 完整 tlv 的 16 进制串 */
+  hex: string
+  /** v 的 16 进制串 */
+  value: string
+  /** 构造类型的子节点 */
+  children: ASN1Node[]
+}
+
+/**
+ * 解析 ASN.1 der 为节点树，构造类型（含上下文标签）会递归解析子节点
+ */
+export function decodeAsn1(input: string): ASN1Node {
+  input = input.toLowerCase()
+  if (!/^[0-9a-f]*$/.test(input) || input.length % 2 !== 0) throw new Error('invalid ASN.1 data: not a hex string')
+  const node = decodeNode(input, 0, input.length)
+  if (node.hex.length !== input.length) throw new Error('invalid ASN.1 data: trailing bytes')
+  return node
+}
+
+function decodeNode(input: string, start: number, end: number): ASN1Node {
+  if (start + 4 > end) throw new Error('invalid ASN.1 data: truncated')
+  const tag = parseInt(input.substring(start, start + 2), 16)
+  if ((tag & 0x1f) === 0x1f) throw new Error('invalid ASN.1 data: high tag number is not supported')
+  if (input.substring(start + 2, start + 4) === '80') throw new Error('invalid ASN.1 data: indefinite length is not supported')
+  const lenOfL = getLenOfL(input, start)
+  if (lenOfL > 5 || start + 2 + lenOfL * 2 > end) throw new Error('invalid ASN.1 data: bad length')
+  const l = getL(input, start)
+  const vIndex = getStartOfV(input, start)
+  const vEnd = vIndex + l * 2
+  if (l < 0 || vEnd > end) throw new Error('invalid ASN.1 data: truncated')
+  const children: ASN1Node[] = []
+  if (tag & 0x20) {
+    let offset = vIndex
+    while (offset < vEnd) {
+      const child = decodeNode(input, offset, vEnd)
+      children.push(child)
+      offset += child.hex.length
+    }
+  }
+  return {
+    tag,
+    hex: input.substring(start, vEnd),
+    value: input.substring(vIndex, vEnd),
+    children,
+  }
+}
+
+/**
+ * 字节形式的 tlv
+ */
+export function derTlvBytes(tag: number, value: Uint8Array) {
+  const length = value.length
+  let head: number[]
+  if (length < 128) {
+    // 短格式
+    head = [tag, length]
+  } else {
+    // 长格式，第一个字节后 7 位为长度占用的字节数
+    const lengthBytes: number[] = []
+    for (let n = length; n > 0; n = Math.floor(n / 256)) lengthBytes.unshift(n % 256)
+    head = [tag, 0x80 | lengthBytes.length, ...lengthBytes]
+  }
+  return utils.concatBytes(new Uint8Array(head), value)
+}
+
+/**
+ * 非负整数转 der 整数值，与 bigintToValue 相同，最高位为 1 时补一个全 0 字节
+ */
+export function bigintToBytes(bigint: bigint) {
+  return utils.numberToBytesBE(bigint, (utils.bitLen(bigint) >> 3) + 1)
+}
+
+/**
+ * 读取 input 中 offset 处的 tlv，返回标签以及 v 的起止位置
+ */
+export function readTlv(input: Uint8Array, offset: number, end = input.length) {
+  if (offset + 2 > end) throw new Error('invalid ASN.1 data: truncated')
+  const tag = input[offset]
+  if ((tag & 0x1f) === 0x1f) throw new Error('invalid ASN.1 data: high tag number is not supported')
+  let length = input[offset + 1]
+  let start = offset + 2
+  if (length === 0x80) throw new Error('invalid ASN.1 data: indefinite length is not supported')
+  if (length > 0x80) {
+    const lenOfL = length & 0x7f
+    if (lenOfL > 4 || start + lenOfL > end) throw new Error('invalid ASN.1 data: bad length')
+    length = 0
+    for (let i = 0; i < lenOfL; i++) length = length * 256 + input[start++]
+  }
+  if (start + length > end) throw new Error('invalid ASN.1 data: truncated')
+  return { tag, start, end: start + length }
+}
+
+/**
+ * 字节形式的 ASN.1 der 编码，针对 sm2 签名
+ */
+export function encodeDerBytes(r: bigint, s: bigint) {
+  return derTlvBytes(0x30, utils.concatBytes(derTlvBytes(0x02, bigintToBytes(r)), derTlvBytes(0x02, bigintToBytes(s))))
+}
+
+/**
+ * 解析字节形式的 ASN.1 der，针对 sm2 验签
+ */
+export function decodeDerBytes(input: Uint8Array) {
+  // 只接受 30 len 02 r 02 s，之后不能有其他字节，签名长度不超过 127 字节，长度都是短格式
+  const seq = readTlv(input, 0)
+  if (seq.tag !== 0x30 || seq.start !== 2 || seq.end !== input.length) throw new Error('invalid DER signature')
+  const r = readDerInteger(input, seq.start, seq.end)
+  const s = readDerInteger(input, r.end, seq.end)
+  if (s.end !== seq.end) throw new Error('invalid DER signature')
+  return { r: r.value, s: s.value }
+}
+
+/**
+ * 读取 sm2 签名中的 INTEGER，要求为最短编码的非负整数
+ */
+function readDerInteger(input: Uint8Array, offset: number, end: number) {
+  const tlv = readTlv(input, offset, end)
+  const length = tlv.end - tlv.start
+  if (tlv.tag !== 0x02 || tlv.start !== offset + 2 || length === 0) throw new Error('invalid DER signature')
+  // 最高位为 1 是负数，前导 0 只能用于最高位为 1 的正数
+  if (input[tlv.start] & 0x80) throw new Error('invalid DER signature')
+  if (length > 1 && input[tlv.start] === 0 && !(input[tlv.start + 1] & 0x80)) throw new Error('invalid DER signature')
+  return { value: utils.bytesToNumberBE(input.subarray(tlv.start, tlv.end)), end: tlv.end }
+}
@@ -0,0 +1,297 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { decodeDerBytes } from './asn1';
+import { ONE, ZERO } from './bn';
+import { field, sm2Curve, sm2Fp } from './ec';
+import { systemRandomBytes } from './rng';
+import { sm3 } from './sm3';
+import { arrayToHex, hexToArray, utf8ToHex } from './utils';
+import { SM2PublicKey, toPublicKeyPoint } from './keyobject';
+import { PublicKeyInput, getZ } from '.';
+
+export interface BatchVerifyItem {
+  msg: string | Uint8Array
+  /** 签名值，格式由 options.der 决定 */
+  signature: string
+  /** 与 doVerifySignature 相同，16 进制串或字节支持不带 04 前缀的 x || y 以及压缩公钥 */
+  publicKey: string | PublicKeyInput
+  /** 单独指定该条目的 userId，默认使用 options.userId */
+  userId?: string
+}
+
+export interface BatchVerifyOptions {
+  der?: boolean
+  /** 是否对原文做 SM3 杂凑（计算 Z 值），与 doVerifySignature 相同 */
+  hash?: boolean
+  userId?: string
+}
+
+// 同一公钥出现多次时才值得预计算
+const PRECOMPUTE_THRESHOLD = 2
+const PRECOMPUTE_WINDOW = 4
+// 每组合并验证的签名数，需要枚举 2^(BATCH_SIZE - 1) 种 y 坐标符号
+const BATCH_SIZE = 4
+// 随机系数的字节数，一组中存在无效签名却通过合并验证的概率不超过 2^(BATCH_SIZE - 1 - 64)
+const RANDOMIZER_BYTES = 8
+// 多标量乘法的窗口大小
+const MSM_WINDOW = 4
+
+type Point = ProjPointType<bigint>
+
+interface PreparedPublicKey {
+  point: Point
+  /** 传入 SM2PublicKey 时沿用其 Z 值缓存 */
+  key?: SM2PublicKey
+  /** 是否已预计算，未预计算时用非常数时间的标量乘法（验签只涉及公开数据） */
+  precomputed: boolean
+  /** 按 userId 缓存的 Z 值 */
+  zCache: Map<string, Uint8Array>
+}
+
+interface BatchEntry {
+  index: number
+  publicKey: PreparedPublicKey
+  s: bigint
+  t: bigint
+  /** x1 ≡ r - e (mod n) */
+  x: bigint
+  /** 以 x 为横坐标的点，x1 可能为 x + n 时为 null，只能单独验证 */
+  point: Point | null
+}
+
+/**
+ * 解析公钥，16 进制串和字节按内容、椭圆曲线点和 SM2PublicKey 按对象去重，
+ * 多次出现的公钥做一次预计算供后续条目共用，无效的公钥为 null
+ */
+function preparePublicKeys(items: BatchVerifyItem[]) {
+  const inputs = new Map<unknown, { publicKey: string | PublicKeyInput, count: number }>()
+  const keys = items.map(({ publicKey }) => {
+    const key = publicKey instanceof Uint8Array ? arrayToHex(Array.from(publicKey)) : publicKey
+    const input = inputs.get(key)
+    if (input) {
+      input.count++
+    } else {
+      inputs.set(key, { publicKey, count: 1 })
+    }
+    return key
+  })
+
+  const prepared = new Map<unknown, PreparedPublicKey | null>()
+  inputs.forEach(({ publicKey, count }, key) => {
+    // 传入椭圆曲线点或 SM2PublicKey 时沿用调用方的预计算
+    if (publicKey instanceof SM2PublicKey) {
+      prepared.set(key, { point: publicKey.point, key: publicKey, precomputed: true, zCache: new Map() })
+    } else if (typeof publicKey !== 'string' && !(publicKey instanceof Uint8Array)) {
+      prepared.set(key, { point: publicKey, precomputed: true, zCache: new Map() })
+    } else {
+      try {
+        // 与 doVerifySignature 相同的解析方式
+        const point = toPublicKeyPoint(publicKey)
+        const precomputed = count >= PRECOMPUTE_THRESHOLD
+        if (precomputed) sm2Curve.utils.precompute(PRECOMPUTE_WINDOW, point)
+        prepared.set(key, { point, precomputed, zCache: new Map() })
+      } catch (error) {
+        prepared.set(key, null)
+      }
+    }
+  })
+  return keys.map(key => prepared.get(key) || null)
+}
+
+/**
+ * 解析签名并求出 kG 的横坐标，签名格式错误或横坐标不在曲线上时返回 null
+ */
+function prepareEntry(index: number, signature: string, publicKey: PreparedPublicKey, e: bigint, der?: boolean): BatchEntry | null {
+  const { n } = sm2Curve.CURVE
+  let r: bigint
+  let s: bigint
+  if (der) {
+    // 与 verifyBytes 使用同一个解码器，格式错误时抛出异常，调用方视为无效签名
+    ({ r, s } = decodeDerBytes(hexToArray(signature)))
+  } else {
+    if (!/^[0-9a-fA-F]{128}$/.test(signature)) return null
+    r = utils.hexToNumber(signature.substring(0, 64))
+    s = utils.hexToNumber(signature.substring(64))
+  }
+  if (r <= ZERO || r >= n || s <= ZERO || s >= n) return null
+
+  // t = (r + s) mod n
+  const t = field.add(r, s)
+  if (t === ZERO) return null
+
+  // R = (e + x1) mod n 等价于 x1 ≡ r - e (mod n)，x1 < p，候选值为 r - e 和 r - e + n
+  const x = field.sub(r, field.create(e))
+  // 第二个候选值出现的概率约为 2^-128，这种条目不参与合并验证
+  if (x + n < sm2Fp.ORDER) return { index, publicKey, s, t, x, point: null }
+  // y^2 = x^3 + ax + b，没有平方根说明 x 不是任何点的横坐标
+  const { a, b } = sm2Curve.CURVE
+  const y2 = sm2Fp.add(sm2Fp.mul(sm2Fp.sqr(x), x), sm2Fp.add(sm2Fp.mul(a, x), b))
+  let y: bigint
+  try {
+    y = sm2Fp.sqrt(y2)
+  } catch (error) {
+    return null
+  }
+  return { index, publicKey, s, t, x, point: sm2Curve.ProjectivePoint.fromAffine({ x, y }) }
+}
+
+/**
+ * 单独验证一条签名，(x1, y1) = s * G + t * PA
+ */
+function verifyEntry({ publicKey, s, t, x }: BatchEntry) {
+  const { n } = sm2Curve.CURVE
+  const { BASE } = sm2Curve.ProjectivePoint
+  const { point, precomputed } = publicKey
+  // 未预计算的公钥用 Shamir 技巧同时计算两个标量乘法
+  const sum = precomputed ? BASE.multiply(s).add(point.multiply(t)) : BASE.multiplyAndAddUnsafe(point, s, t)
+  if (!sum || sum.equals(sm2Curve.ProjectivePoint.ZERO)) return false
+
+  // 射影坐标下 x1 = X / Z，比较 X 与 x1 * Z 可以省去求逆
+  if (sm2Fp.eql(sum.px, sm2Fp.mul(x, sum.pz))) return true
+  const x2 = x + n
+  return x2 < sm2Fp.ORDER && sm2Fp.eql(sum.px, sm2Fp.mul(x2, sum.pz))
+}
+
+/**
+ * 多标量乘法 Σ k_i * P_i，所有点共用倍点运算（Straus 算法）
+ */
+function multiScalarMultiply(points: Point[], scalars: bigint[]) {
+  const { ZERO: INFINITY } = sm2Curve.ProjectivePoint
+  const mask = BigInt((1 << MSM_WINDOW) - 1)
+  const shift = BigInt(MSM_WINDOW)
+  // 每个点的 1P, 2P, ..., (2^w - 1)P
+  const tables = points.map((point) => {
+    const table = [point]
+    for (let i = 1; i < (1 << MSM_WINDOW) - 1; i++) table.push(table[i - 1].add(point))
+    return table
+  })
+  let sum = INFINITY
+  for (let offset = Math.ceil(256 / MSM_WINDOW) - 1; offset >= 0; offset--) {
+    for (let i = 0; i < MSM_WINDOW; i++) sum = sum.double()
+    const position = BigInt(offset) * shift
+    for (let i = 0; i < points.length; i++) {
+      const digit = Number((scalars[i] >> position) & mask)
+      if (digit) sum = sum.add(tables[i][digit - 1])
+    }
+  }
+  return sum
+}
+
+/**
+ * 合并验证一组签名：有效签名满足 s_i * G + t_i * P_i = ±R_i，
+ * 取随机系数 a_i（a_0 = 1），检查 (Σ a_i * s_i) * G + Σ (a_i * t_i) * P_i 是否等于某种符号组合下的 Σ ±a_i * R_i
+ */
+function verifyCombined(entries: BatchEntry[]) {
+  if (entries.length === 1) return verifyEntry(entries[0])
+  const { BASE, ZERO: INFINITY } = sm2Curve.ProjectivePoint
+  // 系数必须不可预测，不使用 setRandomSource 设置的随机数源
+  const randomizers = entries.map((_, i) => i === 0 ? ONE : utils.bytesToNumberBE(systemRandomBytes(RANDOMIZER_BYTES)) + ONE)
+
+  // 同一公钥的系数先相加
+  let baseScalar = ZERO
+  const scalars = new Map<PreparedPublicKey, bigint>()
+  entries.forEach(({ publicKey, s, t }, i) => {
+    baseScalar = field.add(baseScalar, field.mul(randomizers[i], s))
+    scalars.set(publicKey, field.add(scalars.get(publicKey) || ZERO, field.mul(randomizers[i], t)))
+  })
+  let left = BASE.multiply(baseScalar)
+  const points: Point[] = []
+  const coefficients: bigint[] = []
+  scalars.forEach((scalar, { point, precomputed }) => {
+    if (scalar === ZERO) return
+    if (precomputed) {
+      left = left.add(point.multiply(scalar))
+    } else {
+      points.push(point)
+      coefficients.push(scalar)
+    }
+  })
+  if (points.length) left = left.add(multiScalarMultiply(points, coefficients))
+
+  // 枚举 a_1..a_m 的符号，按格雷码每次只翻转一个，与 -left 比较覆盖 a_0 取负的情况
+  const terms = entries.map(({ point }, i) => i === 0 ? point! : point!.multiplyUnsafe(randomizers[i]))
+  const negated = terms.map(() => false)
+  let right = terms.reduce((sum, term) => sum.add(term), INFINITY)
+  const negatedLeft = left.negate()
+  for (let k = 1; ; k++) {
+    if (right.equals(left) || right.equals(negatedLeft)) return true
+    if (k === 1 << (terms.length - 1)) return false
+    const i = 32 - Math.clz32(k & -k)
+    const term = terms[i].double()
+    right = negated[i] ? right.add(term) : right.subtract(term)
+    negated[i] = !negated[i]
+  }
+}
+
+/**
+ * 合并验证失败时二分，逐步定位无效的签名
+ */
+function bisect(entries: BatchEntry[], results: boolean[]) {
+  if (verifyCombined(entries)) {
+    for (const { index } of entries) results[index] = true
+    return
+  }
+  if (entries.length === 1) return
+  const middle = entries.length >> 1
+  bisect(entries.slice(0, middle), results)
+  bisect(entries.slice(middle), results)
+}
+
+/**
+ * 批量验签，所有条目共用公钥预计算、Z 值缓存
+ * 每 4 条签名合并为一次随机线性组合验证，不同公钥的标量乘法共用倍点运算；SM2 签名只包含 r，kG 的 y 坐标由 x1 开平方得到，符号未知，需要枚举
+ * 默认在遇到第一条无效签名时返回 false，output 为 array 时对验证失败的组二分查找，逐条返回结果；格式错误的条目视为无效，不会抛出异常
+ */
+export function verifyBatch(items: BatchVerifyItem[], options: BatchVerifyOptions & { output: 'array' }): boolean[]
+export function verifyBatch(items: BatchVerifyItem[], options?: BatchVerifyOptions & { output?: 'boolean' }): boolean
+export function verifyBatch(items: BatchVerifyItem[], options: BatchVerifyOptions & { output?: 'boolean' | 'array' } = {}): boolean | boolean[] {
+  const { der, hash, userId = '1234567812345678', output = 'boolean' } = options
+  const publicKeys = preparePublicKeys(items)
+  const results: boolean[] = items.map(() => false)
+  const entries: BatchEntry[] = []
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index]
+    const publicKey = publicKeys[index]
+    let entry: BatchEntry | null = null
+    try {
+      if (publicKey && typeof item.signature === 'string') {
+        const msg = typeof item.msg === 'string' ? hexToArray(utf8ToHex(item.msg)) : item.msg
+        let e: bigint
+        if (hash) {
+          // sm3杂凑，Z 值按公钥和 userId 缓存
+          const id = item.userId === undefined ? userId : item.userId
+          let z = publicKey.zCache.get(id)
+          if (!z) {
+            z = getZ(publicKey.key || publicKey.point, id)
+            publicKey.zCache.set(id, z)
+          }
+          e = utils.bytesToNumberBE(sm3(utils.concatBytes(z, msg)))
+        } else {
+          e = utils.hexToNumber(arrayToHex(Array.from(msg)))
+        }
+        entry = prepareEntry(index, item.signature, publicKey, e, der)
+      }
+    } catch (error) {
+      entry = null
+    }
+    if (!entry && output !== 'array') return false
+    if (!entry) continue
+    if (entry.point) {
+      entries.push(entry)
+    } else {
+      results[index] = verifyEntry(entry)
+      if (!results[index] && output !== 'array') return false
+    }
+  }
+
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const group = entries.slice(i, i + BATCH_SIZE)
+    if (output === 'array') {
+      bisect(group, results)
+    } else if (!verifyCombined(group)) {
+      return false
+    }
+  }
+  return output === 'array' ? results : true
+}
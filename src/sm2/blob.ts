@@ -0,0 +1,307 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { bytesToHex } from '@/sm3/utils';
+import * as sm4 from '@/sm4';
+import { decodeDer, decodeEnc, encodeDer, encodeEnc } from './asn1'
+import { C1Format, C1_LENGTH, encodeC1 } from './cipher'
+import { sm2Curve } from './ec'
+import { uncompressedPublicKey } from './keys'
+import { SM2PrivateKey, SM2PublicKey, toKeyPairHex, toPrivateKeyHex, toPublicKeyHex } from './keyobject'
+import { randomBytes } from './rng'
+import { KeyPair, hexToArray, leftPad } from './utils'
+import { doDecrypt, doEncrypt, getPublicKeyFromPrivateKey } from '.'
+
+// GM/T 0016 SKF 和 GM/T 0018 SDF 中的定长结构，坐标和私钥按 64 字节右对齐（高位补 0）
+const COORDINATE_LENGTH = 64
+const PUBLIC_KEY_BLOB_LENGTH = 4 + COORDINATE_LENGTH * 2
+const PRIVATE_KEY_BLOB_LENGTH = 4 + COORDINATE_LENGTH
+const CIPHER_BLOB_HEADER_LENGTH = COORDINATE_LENGTH * 2 + 32 + 4
+const SIGNATURE_BLOB_LENGTH = COORDINATE_LENGTH * 2
+const ENVELOPED_KEY_HEADER_LENGTH = 12 + COORDINATE_LENGTH + PUBLIC_KEY_BLOB_LENGTH
+const C1C2C3 = 0
+
+/** SGD_SM4_ECB */
+export const SGD_SM4_ECB = 0x00000401
+
+export interface BlobOptions {
+  /** ULONG 字段是否为小端序，默认为 true */
+  littleEndian?: boolean
+}
+
+export interface CipherBlobOptions extends BlobOptions {
+  /** 1 - C1C3C2，0 - C1C2C3，默认为 1 */
+  cipherMode?: number
+  /** 密文是否为 ASN.1 编码，与 doEncrypt 的 asn1 选项相同 */
+  asn1?: boolean
+  /** 非 ASN.1 时密文中 C1 的编码，与 doEncrypt 的 c1Format 选项相同，默认为 raw */
+  c1Format?: C1Format
+}
+
+export interface SignatureBlobOptions {
+  /** 签名是否为 der 编码，与 doSignature 的 der 选项相同 */
+  der?: boolean
+}
+
+export interface EnvelopedKeyBlob {
+  version: number
+  /** 对称算法标识，如 SGD_SM4_ECB */
+  symmAlgId: number
+  bits: number
+  /** 对称密钥加密后的私钥，16 进制串 */
+  encryptedPrivateKey: string
+  /** 被保护密钥对的公钥 */
+  publicKey: string
+  /** SM2 加密的对称密钥，C1C3C2 格式的 16 进制串 */
+  cipher: string
+}
+
+function toBytes(blob: Uint8Array | string) {
+  return typeof blob === 'string' ? hexToArray(blob) : blob
+}
+
+function writeUint32(out: Uint8Array, offset: number, value: number, littleEndian = true) {
+  new DataView(out.buffer, out.byteOffset, out.byteLength).setUint32(offset, value, littleEndian)
+}
+
+function readUint32(blob: Uint8Array, offset: number, littleEndian = true) {
+  return new DataView(blob.buffer, blob.byteOffset, blob.byteLength).getUint32(offset, littleEndian)
+}
+
+/**
+ * 16 进制串右对齐写入 64 字节的坐标字段
+ */
+function coordinate(hex: string) {
+  return hexToArray(leftPad(hex, COORDINATE_LENGTH * 2))
+}
+
+/**
+ * 读取 64 字节的坐标字段，只保留低 32 字节，高位必须为 0
+ */
+function readCoordinate(blob: Uint8Array, offset: number, what: string) {
+  const field = blob.subarray(offset, offset + COORDINATE_LENGTH)
+  if (field.subarray(0, 32).some(byte => byte !== 0)) throw new Error(`invalid ${what}: coordinate exceeds 256 bits`)
+  return bytesToHex(field.subarray(32))
+}
+
+/**
+ * 公钥转 ECCPUBLICKEYBLOB
+ */
+export function encodePublicKeyBlob(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: BlobOptions = {}) {
+  const key = uncompressedPublicKey(toPublicKeyHex(publicKey))
+  const out = new Uint8Array(PUBLIC_KEY_BLOB_LENGTH)
+  writeUint32(out, 0, 256, options.littleEndian)
+  out.set(coordinate(key.substring(2, 66)), 4)
+  out.set(coordinate(key.substring(66)), 4 + COORDINATE_LENGTH)
+  return out
+}
+
+/**
+ * ECCPUBLICKEYBLOB 转非压缩公钥
+ */
+export function decodePublicKeyBlob(blob: Uint8Array | string, options: BlobOptions = {}) {
+  const bytes = toBytes(blob)
+  if (bytes.length < PUBLIC_KEY_BLOB_LENGTH) throw new Error('invalid public key blob: too short')
+  if (readUint32(bytes, 0, options.littleEndian) !== 256) throw new Error('invalid public key blob: unsupported bit length')
+  const x = readCoordinate(bytes, 4, 'public key blob')
+  const y = readCoordinate(bytes, 4 + COORDINATE_LENGTH, 'public key blob')
+  try {
+    return uncompressedPublicKey('04' + x + y)
+  } catch (error) {
+    throw new Error('invalid public key blob: not a point on SM2 curve')
+  }
+}
+
+/**
+ * 私钥转 ECCPRIVATEKEYBLOB
+ */
+export function encodePrivateKeyBlob(privateKey: string | SM2PrivateKey, options: BlobOptions = {}) {
+  const out = new Uint8Array(PRIVATE_KEY_BLOB_LENGTH)
+  writeUint32(out, 0, 256, options.littleEndian)
+  out.set(coordinate(leftPad(toPrivateKeyHex(privateKey), 64)), 4)
+  return out
+}
+
+/**
+ * ECCPRIVATEKEYBLOB 转私钥
+ */
+export function decodePrivateKeyBlob(blob: Uint8Array | string, options: BlobOptions = {}) {
+  const bytes = toBytes(blob)
+  if (bytes.length < PRIVATE_KEY_BLOB_LENGTH) throw new Error('invalid private key blob: too short')
+  if (readUint32(bytes, 0, options.littleEndian) !== 256) throw new Error('invalid private key blob: unsupported bit length')
+  return readCoordinate(bytes, 4, 'private key blob')
+}
+
+/**
+ * 解析非 ASN.1 密文中的 C1，带前缀时校验是否为曲线上的点，返回 16 进制坐标
+ */
+function decodeC1(c1: string, c1Format: C1Format) {
+  if (c1Format === 'raw') return { x: c1.substring(0, 64), y: c1.substring(64) }
+  let point
+  try {
+    // 长度已按格式截取，fromHex 会校验对应的前缀
+    point = sm2Curve.ProjectivePoint.fromHex(c1)
+  } catch (error) {
+    throw new Error('invalid ciphertext: C1 is not a valid point')
+  }
+  const { x, y } = point.toAffine()
+  return { x: utils.numberToHexUnpadded(x), y: utils.numberToHexUnpadded(y) }
+}
+
+/**
+ * doEncrypt 的密文转 ECCCIPHERBLOB
+ */
+export function encodeCipherBlob(ciphertext: string, options: CipherBlobOptions = {}) {
+  const { cipherMode = 1, asn1 = false, c1Format = 'raw' } = options
+  let x: string
+  let y: string
+  let hash: string
+  let cipher: string
+  if (asn1) {
+    const decoded = decodeEnc(ciphertext)
+    x = utils.numberToHexUnpadded(decoded.x)
+    y = utils.numberToHexUnpadded(decoded.y)
+    // decodeEnc 按编码顺序返回，C1C2C3 时 hash 字段实际为密文
+    hash = cipherMode === C1C2C3 ? decoded.cipher : decoded.hash
+    cipher = cipherMode === C1C2C3 ? decoded.hash : decoded.cipher
+  } else {
+    const c1Length = C1_LENGTH[c1Format] * 2
+    if (ciphertext.length < c1Length + 64) throw new Error('invalid ciphertext: too short')
+    const c1 = decodeC1(ciphertext.substring(0, c1Length), c1Format)
+    x = c1.x
+    y = c1.y
+    if (cipherMode === C1C2C3) {
+      cipher = ciphertext.substring(c1Length, ciphertext.length - 64)
+      hash = ciphertext.substring(ciphertext.length - 64)
+    } else {
+      hash = ciphertext.substring(c1Length, c1Length + 64)
+      cipher = ciphertext.substring(c1Length + 64)
+    }
+  }
+  const cipherBytes = hexToArray(cipher)
+  const out = new Uint8Array(CIPHER_BLOB_HEADER_LENGTH + cipherBytes.length)
+  out.set(coordinate(x), 0)
+  out.set(coordinate(y), COORDINATE_LENGTH)
+  out.set(hexToArray(leftPad(hash, 64)), COORDINATE_LENGTH * 2)
+  writeUint32(out, COORDINATE_LENGTH * 2 + 32, cipherBytes.length, options.littleEndian)
+  out.set(cipherBytes, CIPHER_BLOB_HEADER_LENGTH)
+  return out
+}
+
+/**
+ * ECCCIPHERBLOB 转 doDecrypt 可以使用的密文
+ */
+export function decodeCipherBlob(blob: Uint8Array | string, options: CipherBlobOptions = {}) {
+  const { cipherMode = 1, asn1 = false, c1Format = 'raw' } = options
+  const bytes = toBytes(blob)
+  if (bytes.length < CIPHER_BLOB_HEADER_LENGTH) throw new Error('invalid cipher blob: too short')
+  const x = readCoordinate(bytes, 0, 'cipher blob')
+  const y = readCoordinate(bytes, COORDINATE_LENGTH, 'cipher blob')
+  const hash = bytesToHex(bytes.subarray(COORDINATE_LENGTH * 2, COORDINATE_LENGTH * 2 + 32))
+  const length = readUint32(bytes, COORDINATE_LENGTH * 2 + 32, options.littleEndian)
+  if (bytes.length < CIPHER_BLOB_HEADER_LENGTH + length) throw new Error('invalid cipher blob: cipher length exceeds blob')
+  const cipher = bytesToHex(bytes.subarray(CIPHER_BLOB_HEADER_LENGTH, CIPHER_BLOB_HEADER_LENGTH + length))
+  if (asn1) {
+    return cipherMode === C1C2C3
+      ? encodeEnc(utils.hexToNumber(x), utils.hexToNumber(y), cipher, hash)
+      : encodeEnc(utils.hexToNumber(x), utils.hexToNumber(y), hash, cipher)
+  }
+  const c1 = c1Format === 'raw'
+    ? x + y
+    : bytesToHex(encodeC1(sm2Curve.ProjectivePoint.fromAffine({ x: utils.hexToNumber(x), y: utils.hexToNumber(y) }), c1Format))
+  return cipherMode === C1C2C3 ? c1 + cipher + hash : c1 + hash + cipher
+}
+
+/**
+ * doSignature 的签名转 ECCSIGNATUREBLOB
+ */
+export function encodeSignatureBlob(signature: string, options: SignatureBlobOptions = {}) {
+  let r: string
+  let s: string
+  if (options.der) {
+    const decoded = decodeDer(signature)
+    r = utils.numberToHexUnpadded(decoded.r)
+    s = utils.numberToHexUnpadded(decoded.s)
+  } else {
+    if (signature.length !== 128) throw new Error('invalid signature: expected 64 bytes r || s')
+    r = signature.substring(0, 64)
+    s = signature.substring(64)
+  }
+  const out = new Uint8Array(SIGNATURE_BLOB_LENGTH)
+  out.set(coordinate(r), 0)
+  out.set(coordinate(s), COORDINATE_LENGTH)
+  return out
+}
+
+/**
+ * ECCSIGNATUREBLOB 转 doVerifySignature 可以使用的签名
+ */
+export function decodeSignatureBlob(blob: Uint8Array | string, options: SignatureBlobOptions = {}) {
+  const bytes = toBytes(blob)
+  if (bytes.length < SIGNATURE_BLOB_LENGTH) throw new Error('invalid signature blob: too short')
+  const r = readCoordinate(bytes, 0, 'signature blob')
+  const s = readCoordinate(bytes, COORDINATE_LENGTH, 'signature blob')
+  return options.der ? encodeDer(utils.hexToNumber(r), utils.hexToNumber(s)) : r + s
+}
+
+/**
+ * 生成 ENVELOPEDKEYBLOB，用于向设备导入加密密钥对：
+ * 随机 SM4 密钥以 ECB 模式加密私钥，SM4 密钥使用设备签名公钥加密
+ * @param keypair 需要导入的密钥对，也可以为 SM2PrivateKey
+ * @param publicKey 设备的签名公钥
+ */
+export function encodeEnvelopedKeyBlob(keypair: KeyPair | SM2PrivateKey, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: BlobOptions = {}) {
+  const imported = toKeyPairHex(keypair)
+  const key = randomBytes(16)
+  // 加密私钥的原文为 ECCPRIVATEKEYBLOB 中的 64 字节 PrivateKey 字段
+  const encryptedPrivateKey = sm4.encrypt(coordinate(leftPad(imported.privateKey, 64)), key, { padding: 'none', output: 'array' })
+  const cipherBlob = encodeCipherBlob(doEncrypt(key, publicKey, 1), options)
+
+  const out = new Uint8Array(ENVELOPED_KEY_HEADER_LENGTH + cipherBlob.length)
+  writeUint32(out, 0, 1, options.littleEndian)
+  writeUint32(out, 4, SGD_SM4_ECB, options.littleEndian)
+  writeUint32(out, 8, 256, options.littleEndian)
+  out.set(encryptedPrivateKey, 12)
+  out.set(encodePublicKeyBlob(imported.publicKey, options), 12 + COORDINATE_LENGTH)
+  out.set(cipherBlob, ENVELOPED_KEY_HEADER_LENGTH)
+  return out
+}
+
+/**
+ * 解析 ENVELOPEDKEYBLOB
+ */
+export function decodeEnvelopedKeyBlob(blob: Uint8Array | string, options: BlobOptions = {}): EnvelopedKeyBlob {
+  const bytes = toBytes(blob)
+  if (bytes.length < ENVELOPED_KEY_HEADER_LENGTH + CIPHER_BLOB_HEADER_LENGTH) throw new Error('invalid enveloped key blob: too short')
+  return {
+    version: readUint32(bytes, 0, options.littleEndian),
+    symmAlgId: readUint32(bytes, 4, options.littleEndian),
+    bits: readUint32(bytes, 8, options.littleEndian),
+    encryptedPrivateKey: bytesToHex(bytes.subarray(12, 12 + COORDINATE_LENGTH)),
+    publicKey: decodePublicKeyBlob(bytes.subarray(12 + COORDINATE_LENGTH, ENVELOPED_KEY_HEADER_LENGTH), options),
+    cipher: decodeCipherBlob(bytes.subarray(ENVELOPED_KEY_HEADER_LENGTH), options),
+  }
+}
+
+/**
+ * 使用签名私钥打开 ENVELOPEDKEYBLOB，返回其中的密钥对
+ * @param privateKey 与 encodeEnvelopedKeyBlob 的 publicKey 对应的私钥
+ */
+export function openEnvelopedKeyBlob(blob: Uint8Array | string, privateKey: string | SM2PrivateKey, options: BlobOptions = {}): KeyPair {
+  const envelope = decodeEnvelopedKeyBlob(blob, options)
+  if (envelope.symmAlgId !== SGD_SM4_ECB) throw new Error('unsupported symmetric algorithm: 0x' + envelope.symmAlgId.toString(16))
+  const key = doDecrypt(envelope.cipher, privateKey, 1, { output: 'array' })
+  if (key.length !== 16) throw new Error('failed to decrypt enveloped key blob')
+  const plain = sm4.decrypt(hexToArray(envelope.encryptedPrivateKey), key, { padding: 'none', output: 'array' })
+  // 标准做法是加密右对齐的 64 字节字段，部分实现只加密 32 字节的私钥并放在字段开头，根据公钥确定
+  const candidates = [plain.subarray(32), plain.subarray(0, 32)]
+  for (const candidate of candidates) {
+    const d = bytesToHex(candidate)
+    if (/^0+$/.test(d)) continue
+    try {
+      if (getPublicKeyFromPrivateKey(d) === envelope.publicKey) return { privateKey: d, publicKey: envelope.publicKey }
+    } catch (error) {
+      // 不是合法的私钥，尝试下一个
+    }
+  }
+  throw new Error('failed to decrypt enveloped key blob: private key does not match public key')
+}
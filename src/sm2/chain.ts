@@ -0,0 +1,162 @@
+import { CertificateRevocationList, toCrl, verifyCrl } from './crl'
+import {
+  OID_AUTHORITY_KEY_IDENTIFIER, OID_BASIC_CONSTRAINTS, OID_EXTENDED_KEY_USAGE, OID_KEY_USAGE, OID_SUBJECT_ALT_NAME, OID_SUBJECT_KEY_IDENTIFIER,
+} from './oid'
+import {
+  Certificate, KeyUsage, toCertificate, verifyCertificate,
+} from './x509'
+
+export type ChainErrorReason =
+  | 'issuerNotFound'
+  | 'signatureInvalid'
+  | 'notYetValid'
+  | 'expired'
+  | 'notCA'
+  | 'keyUsage'
+  | 'pathLength'
+  | 'unknownCriticalExtension'
+  | 'crlInvalid'
+  | 'crlExpired'
+  | 'revoked'
+
+export type ChainValidationResult =
+  | { valid: true, chain: Certificate[] }
+  | {
+    valid: false
+    /** 已构建的部分路径，从终端证书开始 */
+    chain: Certificate[]
+    /** 校验失败的证书 */
+    certificate: Certificate
+    reason: ChainErrorReason
+    message: string
+  }
+
+export interface ChainValidationOptions {
+  /** 信任的根证书 */
+  trustedRoots: (Certificate | string | Uint8Array)[]
+  /** 中间证书，顺序任意 */
+  intermediates?: (Certificate | string | Uint8Array)[]
+  /** 证书吊销列表，只检查签发者有对应 CRL 的证书 */
+  crls?: (CertificateRevocationList | string | Uint8Array)[]
+  /** 校验时间，默认为当前时间 */
+  time?: Date
+  /** 终端证书需要具备的密钥用法 */
+  keyUsage?: KeyUsage[]
+  /** 验签使用的 userId，默认为 1234567812345678 */
+  userId?: string
+  /** 最大路径长度（不含终端证书），默认为 8 */
+  maxDepth?: number
+}
+
+type Failure = Extract<ChainValidationResult, { valid: false }>
+
+// 能够处理的扩展，其余扩展为关键扩展时拒绝
+const KNOWN_EXTENSIONS = [
+  OID_BASIC_CONSTRAINTS, OID_KEY_USAGE, OID_EXTENDED_KEY_USAGE, OID_SUBJECT_ALT_NAME, OID_SUBJECT_KEY_IDENTIFIER, OID_AUTHORITY_KEY_IDENTIFIER,
+]
+
+function fail(chain: Certificate[], certificate: Certificate, reason: ChainErrorReason, message: string): Failure {
+  return {
+    valid: false, chain, certificate, reason, message,
+  }
+}
+
+function isIssuerOf(issuer: Certificate, cert: Certificate) {
+  if (issuer.subject.hex !== cert.issuer.hex) return false
+  return !cert.authorityKeyIdentifier || !issuer.subjectKeyIdentifier || cert.authorityKeyIdentifier === issuer.subjectKeyIdentifier
+}
+
+function isSameCertificate(a: Certificate, b: Certificate) {
+  return a.subject.hex === b.subject.hex && a.publicKey === b.publicKey
+}
+
+/**
+ * 校验单个证书自身的属性：有效期和关键扩展
+ */
+function checkCertificate(chain: Certificate[], cert: Certificate, time: Date): Failure | null {
+  if (time < cert.notBefore) return fail(chain, cert, 'notYetValid', `certificate is not valid before ${cert.notBefore.toISOString()}`)
+  if (time > cert.notAfter) return fail(chain, cert, 'expired', `certificate expired at ${cert.notAfter.toISOString()}`)
+  const unknown = cert.extensions.find(ext => ext.critical && KNOWN_EXTENSIONS.indexOf(ext.oid) === -1)
+  if (unknown) return fail(chain, cert, 'unknownCriticalExtension', `unsupported critical extension: ${unknown.oid}`)
+  return null
+}
+
+/**
+ * 校验签发者能否签发 cert，depth 为 cert 之下（不含终端证书）的中间证书数
+ */
+function checkIssuer(chain: Certificate[], issuer: Certificate, cert: Certificate, depth: number, trusted: boolean, userId?: string): Failure | null {
+  if (!trusted) {
+    if (!issuer.basicConstraints || !issuer.basicConstraints.ca) return fail(chain, issuer, 'notCA', 'issuer is not a CA certificate')
+    if (issuer.keyUsage && issuer.keyUsage.indexOf('keyCertSign') === -1) return fail(chain, issuer, 'keyUsage', 'issuer key usage does not allow keyCertSign')
+  }
+  const pathLength = issuer.basicConstraints && issuer.basicConstraints.pathLength
+  if (pathLength !== undefined && depth > pathLength) return fail(chain, issuer, 'pathLength', `path length constraint ${pathLength} exceeded`)
+  if (!verifyCertificate(cert, issuer, { userId })) return fail(chain, cert, 'signatureInvalid', 'certificate signature verification failed')
+  return null
+}
+
+/**
+ * 检查 cert 是否被其签发者吊销
+ */
+function checkRevocation(
+  chain: Certificate[], cert: Certificate, issuer: Certificate, crls: CertificateRevocationList[], time: Date, userId?: string,
+): Failure | null {
+  for (const crl of crls) {
+    if (crl.issuer.hex !== issuer.subject.hex) continue
+    if (crl.authorityKeyIdentifier && issuer.subjectKeyIdentifier && crl.authorityKeyIdentifier !== issuer.subjectKeyIdentifier) continue
+    if (issuer.keyUsage && issuer.keyUsage.indexOf('cRLSign') === -1) return fail(chain, issuer, 'crlInvalid', 'issuer key usage does not allow cRLSign')
+    if (!verifyCrl(crl, issuer, { userId })) return fail(chain, cert, 'crlInvalid', 'CRL signature verification failed')
+    if (time < crl.thisUpdate || (crl.nextUpdate && time > crl.nextUpdate)) {
+      return fail(chain, cert, 'crlExpired', 'CRL is not valid at the validation time')
+    }
+    const revoked = crl.revokedCertificates.find(item => item.serialNumber === cert.serialNumber)
+    if (revoked && revoked.revocationDate <= time) {
+      return fail(chain, cert, 'revoked', `certificate was revoked at ${revoked.revocationDate.toISOString()}`)
+    }
+  }
+  return null
+}
+
+/**
+ * 构建并校验证书路径：签名、有效期、basicConstraints、keyUsage 以及 CRL 吊销状态
+ */
+export function verifyCertificateChain(leaf: Certificate | string | Uint8Array, options: ChainValidationOptions): ChainValidationResult {
+  const {
+    keyUsage = [], userId, maxDepth = 8,
+  } = options
+  const time = options.time || new Date()
+  const roots = options.trustedRoots.map(toCertificate)
+  const intermediates = (options.intermediates || []).map(toCertificate)
+  const crls = (options.crls || []).map(toCrl)
+  const leafCert = toCertificate(leaf)
+
+  const leafUsage = leafCert.keyUsage
+  const missing = keyUsage.find(usage => leafUsage && leafUsage.indexOf(usage) === -1)
+  if (missing) return fail([leafCert], leafCert, 'keyUsage', `certificate key usage does not allow ${missing}`)
+
+  // 深度优先构建路径，所有候选签发者都失败时返回第一个失败原因
+  const build = (chain: Certificate[]): ChainValidationResult => {
+    const cert = chain[chain.length - 1]
+    const error = checkCertificate(chain, cert, time)
+    if (error) return error
+    if (roots.some(root => isSameCertificate(root, cert))) return { valid: true, chain }
+
+    const depth = chain.length - 1
+    let firstFailure: Failure | null = null
+    const candidates = [
+      ...roots.filter(root => isIssuerOf(root, cert)).map(issuer => ({ issuer, trusted: true })),
+      ...intermediates.filter(item => isIssuerOf(item, cert) && !chain.some(c => isSameCertificate(c, item))).map(issuer => ({ issuer, trusted: false })),
+    ]
+    for (const { issuer, trusted } of candidates) {
+      if (!trusted && depth >= maxDepth) break
+      const next = [...chain, issuer]
+      const result = checkIssuer(next, issuer, cert, depth, trusted, userId)
+        || checkRevocation(next, cert, issuer, crls, time, userId)
+        || build(next)
+      if (result.valid) return result
+      if (!firstFailure) firstFailure = result
+    }
+    return firstFailure || fail(chain, cert, 'issuerNotFound', `issuer not found: ${cert.issuer.text}`)
+  }
+  return build([leafCert])
+}
@@ -0,0 +1,191 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { bigintToBytes, derTlvBytes, readTlv } from './asn1'
+import { ZERO } from './bn';
+import { sm2Curve } from './ec';
+import { SM2DecryptError } from './errors';
+import { kdf } from './kdf';
+import { sm3 } from './sm3'
+
+export const C1C2C3 = 0
+
+/** 非 ASN.1 密文中 C1 的编码：raw 为不带 04 前缀的 x || y，uncompressed 为 04 || x || y，compressed 为 02/03 || x */
+export type C1Format = 'raw' | 'uncompressed' | 'compressed'
+
+export interface CipherFormat {
+  /** 1 - C1C3C2，0 - C1C2C3 */
+  cipherMode: number
+  asn1: boolean
+  /** 仅非 ASN.1 密文有效 */
+  c1Format?: C1Format
+}
+
+export const C1_LENGTH: Record<C1Format, number> = { raw: 64, uncompressed: 65, compressed: 33 }
+
+/**
+ * msg 与 t = KDF(x2 || y2, klen) 异或，t 全为 0 时返回 false（标准要求此时加密重新选取 k，解密报错）
+ */
+export function xorCipherStream(x2: Uint8Array, y2: Uint8Array, msg: Uint8Array) {
+  const stream = kdf(utils.concatBytes(x2, y2), msg.length)
+  let nonZero = msg.length === 0
+  
+  for (let i = 0, len = msg.length; i < len; i++) {
+    if (stream[i]) nonZero = true
+    msg[i] ^= stream[i] & 0xff
+  }
+  return nonZero
+}
+
+/**
+ * 按 C1 编码格式输出 C1
+ */
+export function encodeC1(c1: ProjPointType<bigint>, c1Format: C1Format = 'raw') {
+  if (c1Format === 'compressed') return c1.toRawBytes(true)
+  const bytes = c1.toRawBytes(false)
+  return c1Format === 'uncompressed' ? bytes : bytes.subarray(1)
+}
+
+/**
+ * 按密文格式拼接 C1、C2、C3，ASN.1 编码为 SEQUENCE { INTEGER x, INTEGER y, OCTET STRING, OCTET STRING }
+ */
+export function encodeCipher(c1: ProjPointType<bigint>, c2: Uint8Array, c3: Uint8Array, cipherMode: number, asn1: boolean, c1Format: C1Format = 'raw') {
+  const [first, second] = cipherMode === C1C2C3 ? [c2, c3] : [c3, c2]
+  if (asn1) {
+    const { x, y } = c1.toAffine()
+    return derTlvBytes(0x30, utils.concatBytes(
+      derTlvBytes(0x02, bigintToBytes(x)),
+      derTlvBytes(0x02, bigintToBytes(y)),
+      derTlvBytes(0x04, first),
+      derTlvBytes(0x04, second),
+    ))
+  }
+  return utils.concatBytes(encodeC1(c1, c1Format), first, second)
+}
+
+/**
+ * 按密文格式拆分出 C1、C2、C3，C2、C3 为 encryptData 的视图
+ * strict 为 true 时校验格式和 C1，失败时抛出 SM2DecryptError
+ */
+export function splitCipher(encryptData: Uint8Array, cipherMode: number, asn1: boolean, strict = false, c1Format: C1Format = 'raw') {
+  let c1: ProjPointType<bigint>
+  let c2: Uint8Array
+  let c3: Uint8Array
+
+  if (asn1) {
+    let x: bigint
+    let y: bigint
+    ({ x, y, c2, c3 } = splitCipherAsn1(encryptData, cipherMode, strict))
+    if (!strict) {
+      c1 = sm2Curve.ProjectivePoint.fromAffine({ x, y })
+    } else {
+      if (x === ZERO && y === ZERO) throw new SM2DecryptError('POINT_AT_INFINITY', 'invalid ciphertext: C1 is the point at infinity')
+      try {
+        // 坐标超过域的大小时同样视为无效的点
+        c1 = sm2Curve.ProjectivePoint.fromAffine({ x, y })
+        c1.assertValidity()
+      } catch (error) {
+        throw new SM2DecryptError('INVALID_POINT', 'invalid ciphertext: C1 is not on the curve')
+      }
+    }
+  } else {
+    const c1Length = C1_LENGTH[c1Format]
+    if (strict && encryptData.length < c1Length + 32) throw new SM2DecryptError('TRUNCATED', 'invalid ciphertext: truncated')
+    const c1Bytes = c1Format === 'raw'
+      ? utils.concatBytes(new Uint8Array([4]), encryptData.subarray(0, c1Length))
+      : encryptData.subarray(0, c1Length)
+    // c1c3c2
+    c3 = encryptData.subarray(c1Length, c1Length + 32)
+    c2 = encryptData.subarray(c1Length + 32)
+    if (cipherMode === C1C2C3) {
+      c3 = encryptData.subarray(encryptData.length - 32)
+      c2 = encryptData.subarray(c1Length, encryptData.length - 32)
+    }
+    if (!strict) {
+      c1 = sm2Curve.ProjectivePoint.fromHex(c1Bytes)
+    } else {
+      if (c1Bytes[0] === 4 && c1Bytes.subarray(1).every(byte => byte === 0)) {
+        throw new SM2DecryptError('POINT_AT_INFINITY', 'invalid ciphertext: C1 is the point at infinity')
+      }
+      try {
+        c1 = sm2Curve.ProjectivePoint.fromHex(c1Bytes)
+      } catch (error) {
+        throw new SM2DecryptError('INVALID_POINT', 'invalid ciphertext: C1 is not on the curve')
+      }
+    }
+  }
+  return { c1, c2, c3 }
+}
+
+function splitCipherAsn1(encryptData: Uint8Array, cipherMode: number, strict: boolean) {
+  const nodes: Array<ReturnType<typeof readTlv>> = []
+  try {
+    const seq = readTlv(encryptData, 0)
+    for (let offset = seq.start; offset < seq.end; offset = nodes[nodes.length - 1].end) {
+      nodes.push(readTlv(encryptData, offset, seq.end))
+    }
+    if (strict && seq.end !== encryptData.length) throw new Error('invalid ASN.1 data: trailing bytes')
+    // SEQUENCE { INTEGER x, INTEGER y, OCTET STRING, OCTET STRING }
+    if (strict && (seq.tag !== 0x30 || nodes.length !== 4 || nodes.map(node => node.tag).join() !== '2,2,4,4')) {
+      throw new SM2DecryptError('INVALID_ASN1', 'invalid ciphertext: not a SM2 cipher structure')
+    }
+  } catch (error) {
+    if (error instanceof SM2DecryptError) throw error
+    const message = (error as Error).message
+    throw new SM2DecryptError(/truncated/.test(message) ? 'TRUNCATED' : 'INVALID_ASN1', `invalid ciphertext: ${message}`)
+  }
+  if (nodes.length < 4) throw new SM2DecryptError('INVALID_ASN1', 'invalid ciphertext: not a SM2 cipher structure')
+
+  const [nodeX, nodeY, node3, node4] = nodes.map(node => encryptData.subarray(node.start, node.end))
+  if (strict && [nodeX, nodeY].some(value => !value.length || value[0] & 0x80)) {
+    throw new SM2DecryptError('INVALID_ASN1', 'invalid ciphertext: C1 coordinates should be non-negative integers')
+  }
+  const [c3, c2] = cipherMode === C1C2C3 ? [node4, node3] : [node3, node4]
+  if (strict && c3.length !== 32) throw new SM2DecryptError('INVALID_ASN1', 'invalid ciphertext: C3 should be 32 bytes')
+  return { x: utils.bytesToNumberBE(nodeX), y: utils.bytesToNumberBE(nodeY), c2, c3 }
+}
+
+/**
+ * 由 (x2, y2) = d * C1 解出明文并校验 C3，校验失败时返回 null，strict 为 true 时抛出 SM2DecryptError
+ */
+export function decryptCipher(p: ProjPointType<bigint>, c2: Uint8Array, c3: Uint8Array, strict = false) {
+  // S = [h]C1，SM2 的 h 为 1，d * C1 为无穷远点说明 C1 不在 n 阶子群中
+  if (p.equals(sm2Curve.ProjectivePoint.ZERO)) {
+    if (strict) throw new SM2DecryptError('POINT_AT_INFINITY', 'invalid ciphertext: [d]C1 is the point at infinity')
+    return null
+  }
+  const msg = Uint8Array.from(c2)
+  const { x, y } = p.toAffine()
+  const x2 = utils.numberToBytesBE(x, 32)
+  const y2 = utils.numberToBytesBE(y, 32)
+
+  if (!xorCipherStream(x2, y2, msg)) {
+    if (strict) throw new SM2DecryptError('KDF_ZERO', 'invalid ciphertext: KDF output is all zero')
+    return null
+  }
+  // c3 = hash(x2 || msg || y2)
+  const checkC3 = sm3(utils.concatBytes(x2, msg, y2))
+
+  if (utils.equalBytes(checkC3, c3)) return msg
+  if (strict) throw new SM2DecryptError('HASH_MISMATCH', 'decryption failed: C3 does not match')
+  return null
+}
+
+/**
+ * 列出密文可能的格式及拆分结果，C1 无效或结构不符的格式会被排除，是否正确需要由 C3 校验确定
+ */
+export function detectCipherFormats(encryptData: Uint8Array) {
+  const candidates: Array<ReturnType<typeof splitCipher> & { format: CipherFormat }> = []
+  const formats: CipherFormat[] = []
+  if (encryptData[0] === 0x30) formats.push({ cipherMode: 1, asn1: true }, { cipherMode: C1C2C3, asn1: true })
+  for (const c1Format of ['raw', 'uncompressed', 'compressed'] as C1Format[]) {
+    formats.push({ cipherMode: 1, asn1: false, c1Format }, { cipherMode: C1C2C3, asn1: false, c1Format })
+  }
+  for (const format of formats) {
+    try {
+      candidates.push({ ...splitCipher(encryptData, format.cipherMode, format.asn1, true, format.c1Format), format })
+    } catch (error) {
+      // 该格式不适用
+    }
+  }
+  return candidates
+}
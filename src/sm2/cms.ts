@@ -0,0 +1,458 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { bytesToHex } from '@/sm3/utils';
+import { utf8ToArray } from '@/sm3';
+import * as sm4 from '@/sm4';
+import {
+  ASN1Node, ASN1Object, DERInteger, DERObjectIdentifier, DEROctetString, DERRaw, DERSequence, DERSet, DERTaggedObject, DERTime, decodeAsn1, hexToOid,
+} from './asn1'
+import { ONE, TWO, ZERO } from './bn';
+import { KeyFormat, toDerHex } from './keys'
+import {
+  OID_CONTENT_TYPE, OID_GM_DATA, OID_GM_ENVELOPED_DATA, OID_GM_SIGNED_DATA, OID_MESSAGE_DIGEST, OID_PKCS7_ENVELOPED_DATA, OID_PKCS7_SIGNED_DATA,
+  OID_SIGNING_TIME, OID_SM2, OID_SM2_ENCRYPT, OID_SM2_SIGN, OID_SM2_SM3, OID_SM3, OID_SM4_CBC, OID_SM4_GCM,
+} from './oid'
+import { randomBytes } from './rng'
+import { sm3 } from './sm3'
+import { hexToArray } from './utils'
+import {
+  Certificate, DistinguishedName, decodeName, decodeTime, integerToHex, keyIdentifier, parseCertificate, toCertificate, toOutput,
+} from './x509'
+import { SM2PrivateKey } from './keyobject'
+import {
+  doDecrypt, doEncrypt, doSignature, doVerifySignature, getPublicKeyFromPrivateKey,
+} from '.'
+
+export interface SignedDataOptions {
+  /** 签名者证书 */
+  certificate: Certificate | string | Uint8Array
+  /** 签名者私钥 */
+  privateKey: string | SM2PrivateKey
+  /** 是否为分离式签名（不包含原文），默认为 false */
+  detached?: boolean
+  /** 是否包含签名属性（contentType、messageDigest、signingTime），默认为 true */
+  signedAttributes?: boolean
+  /** 签名时间，默认为当前时间 */
+  signingTime?: Date
+  /** 是否嵌入签名者证书，默认为 true */
+  includeCertificate?: boolean
+  /** 额外嵌入的证书，如中间证书 */
+  certificates?: (Certificate | string | Uint8Array)[]
+  /** 签名使用的 userId，默认为 1234567812345678 */
+  userId?: string
+  format?: KeyFormat
+}
+
+export interface SignerInfo {
+  /** 签名者证书的签发者和序列号 */
+  issuer: DistinguishedName
+  serialNumber: string
+  digestAlgorithm: string
+  signatureAlgorithm: string
+  /** 签名属性 SET der 编码的 16 进制串（已替换为 SET 标签），没有签名属性时为 undefined */
+  signedAttributes?: string
+  contentType?: string
+  /** 签名属性中的摘要，16 进制串 */
+  messageDigest?: string
+  signingTime?: Date
+  /** der 编码的签名值 */
+  signature: string
+}
+
+export interface SignedData {
+  hex: string
+  /** 内容类型，GM/T 0010 或 RFC 5652 中的 data */
+  contentType: string
+  /** 原文，分离式签名时为 undefined */
+  content?: Uint8Array
+  certificates: Certificate[]
+  signers: SignerInfo[]
+}
+
+export interface VerifySignedDataOptions {
+  /** 分离式签名的原文 */
+  content?: string | Uint8Array
+  /** 签名数据中未包含签名者证书时，从这里查找 */
+  certificates?: (Certificate | string | Uint8Array)[]
+  /** 验签使用的 userId，默认为 1234567812345678 */
+  userId?: string
+}
+
+function expectTag(node: ASN1Node | undefined, tag: number, what: string): ASN1Node {
+  if (!node || node.tag !== tag) throw new Error(`invalid signed data: bad ${what}`)
+  return node
+}
+
+function toBytes(content: string | Uint8Array) {
+  return typeof content === 'string' ? utf8ToArray(content) : content
+}
+
+function algorithm(oid: string) {
+  return new DERSequence([new DERObjectIdentifier(oid)])
+}
+
+function attribute(oid: string, value: ASN1Object) {
+  return new DERSequence([new DERObjectIdentifier(oid), new DERSet([value])])
+}
+
+/**
+ * 生成 GM/T 0010 SignedData，使用 SM3 摘要和 SM2 签名
+ */
+export function createSignedData(content: string | Uint8Array, options: SignedDataOptions & { format: 'der' }): Uint8Array
+export function createSignedData(content: string | Uint8Array, options: SignedDataOptions & { format?: 'pem' }): string
+export function createSignedData(content: string | Uint8Array, options: SignedDataOptions): string | Uint8Array {
+  const {
+    privateKey, detached = false, signedAttributes = true, includeCertificate = true, userId, format,
+  } = options
+  const certificate = toCertificate(options.certificate)
+  if (getPublicKeyFromPrivateKey(privateKey) !== certificate.publicKey) throw new Error('private key does not match certificate')
+  const data = toBytes(content)
+
+  let attributes: DERSet | null = null
+  let signed = data
+  if (signedAttributes) {
+    attributes = new DERSet([
+      attribute(OID_CONTENT_TYPE, new DERObjectIdentifier(OID_GM_DATA)),
+      attribute(OID_SIGNING_TIME, new DERTime(options.signingTime || new Date())),
+      attribute(OID_MESSAGE_DIGEST, new DEROctetString(bytesToHex(sm3(data)))),
+    ])
+    // 有签名属性时，签名原文为签名属性的 SET 编码
+    signed = hexToArray(attributes.getEncodedHex())
+  }
+  const signature = doSignature(signed, privateKey, {
+    der: true, hash: true, publicKey: certificate.publicKey, userId,
+  })
+
+  const signerInfo: ASN1Object[] = [
+    new DERInteger(ONE),
+    new DERSequence([new DERRaw(certificate.issuer.hex), new DERInteger(utils.hexToNumber(certificate.serialNumber))]),
+    algorithm(OID_SM3),
+  ]
+  if (attributes) signerInfo.push(new DERRaw('a0' + attributes.getEncodedHex().substring(2)))
+  signerInfo.push(algorithm(OID_SM2_SIGN), new DEROctetString(signature))
+
+  const contentInfo: ASN1Object[] = [new DERObjectIdentifier(OID_GM_DATA)]
+  if (!detached) contentInfo.push(new DERTaggedObject(0, new DEROctetString(bytesToHex(data))))
+
+  const certificates = [
+    ...(includeCertificate ? [certificate] : []),
+    ...(options.certificates || []).map(toCertificate),
+  ]
+  const signedData: ASN1Object[] = [
+    new DERInteger(ONE),
+    new DERSet([algorithm(OID_SM3)]),
+    new DERSequence(contentInfo),
+  ]
+  if (certificates.length) signedData.push(new DERTaggedObject(0, new DERSet(certificates.map(cert => new DERRaw(cert.hex))), false))
+  signedData.push(new DERSet([new DERSequence(signerInfo)]))
+
+  const der = new DERSequence([
+    new DERObjectIdentifier(OID_GM_SIGNED_DATA),
+    new DERTaggedObject(0, new DERSequence(signedData)),
+  ]).getEncodedHex()
+  return toOutput(der, 'PKCS7', format)
+}
+
+function decodeSignerInfo(node: ASN1Node): SignerInfo {
+  const items = expectTag(node, 0x30, 'signer info').children.slice(1)
+  const [name, serial] = expectTag(items.shift(), 0x30, 'issuer and serial number').children
+  const signer: SignerInfo = {
+    issuer: decodeName(expectTag(name, 0x30, 'issuer')),
+    serialNumber: integerToHex(expectTag(serial, 0x02, 'serial number').value),
+    digestAlgorithm: hexToOid(expectTag(expectTag(items.shift(), 0x30, 'digest algorithm').children[0], 0x06, 'digest algorithm').value),
+    signatureAlgorithm: '',
+    signature: '',
+  }
+  if (items[0] && items[0].tag === 0xa0) {
+    const attributes = items.shift()!
+    signer.signedAttributes = '31' + attributes.hex.substring(2)
+    for (const attr of attributes.children) {
+      const [oid, values] = attr.children
+      const value = values && values.children[0]
+      if (!oid || !value) throw new Error('invalid signed data: bad attribute')
+      const type = hexToOid(oid.value)
+      if (type === OID_CONTENT_TYPE) signer.contentType = hexToOid(value.value)
+      else if (type === OID_MESSAGE_DIGEST) signer.messageDigest = value.value
+      else if (type === OID_SIGNING_TIME) signer.signingTime = decodeTime(value)
+    }
+  }
+  signer.signatureAlgorithm = hexToOid(expectTag(expectTag(items.shift(), 0x30, 'signature algorithm').children[0], 0x06, 'signature algorithm').value)
+  signer.signature = expectTag(items.shift(), 0x04, 'signature').value
+  return signer
+}
+
+/**
+ * 解析 SignedData，支持 GM/T 0010 和 RFC 5652 的内容类型 OID
+ */
+export function parseSignedData(input: string | Uint8Array): SignedData {
+  const root = decodeAsn1(toDerHex(input, ['PKCS7', 'CMS']))
+  const [type, explicit] = expectTag(root, 0x30, 'content info').children
+  const oid = hexToOid(expectTag(type, 0x06, 'content type').value)
+  if (oid !== OID_GM_SIGNED_DATA && oid !== OID_PKCS7_SIGNED_DATA) throw new Error('invalid signed data: unexpected content type ' + oid)
+  const items = expectTag(expectTag(explicit, 0xa0, 'content').children[0], 0x30, 'signed data').children.slice(2)
+
+  const [contentType, contentNode] = expectTag(items.shift(), 0x30, 'encapsulated content').children
+  let content: Uint8Array | undefined
+  if (contentNode) {
+    const octets = expectTag(contentNode, 0xa0, 'encapsulated content').children[0]
+    // 兼容分段的 OCTET STRING
+    const value = octets && octets.tag === 0x24 ? octets.children.map(item => item.value).join('') : expectTag(octets, 0x04, 'encapsulated content').value
+    content = hexToArray(value)
+  }
+  const certificates = items[0] && items[0].tag === 0xa0 ? items.shift()!.children.map(item => parseCertificate(item.hex)) : []
+  if (items[0] && items[0].tag === 0xa1) items.shift()
+  const signers = expectTag(items.shift(), 0x31, 'signer infos').children.map(decodeSignerInfo)
+
+  return {
+    hex: root.hex,
+    contentType: hexToOid(expectTag(contentType, 0x06, 'content type').value),
+    content,
+    certificates,
+    signers,
+  }
+}
+
+/**
+ * 验证 SignedData 中所有签名者的签名，不校验证书链，需要时请使用 verifyCertificateChain
+ */
+export function verifySignedData(input: SignedData | string | Uint8Array, options: VerifySignedDataOptions = {}) {
+  const signedData = typeof input === 'object' && !(input instanceof Uint8Array) ? input : parseSignedData(input)
+  const content = options.content !== undefined ? toBytes(options.content) : signedData.content
+  if (!content) throw new Error('content is required for detached signature')
+  if (!signedData.signers.length) return false
+  const certificates = [...signedData.certificates, ...(options.certificates || []).map(toCertificate)]
+  const digest = bytesToHex(sm3(content))
+
+  return signedData.signers.every(signer => {
+    const certificate = certificates.find(cert => cert.issuer.hex === signer.issuer.hex && cert.serialNumber === signer.serialNumber)
+    if (!certificate || signer.digestAlgorithm !== OID_SM3) return false
+    if (signer.signatureAlgorithm !== OID_SM2_SIGN && signer.signatureAlgorithm !== OID_SM2_SM3) return false
+    let signed = content
+    if (signer.signedAttributes) {
+      if (signer.contentType !== signedData.contentType || signer.messageDigest !== digest) return false
+      signed = hexToArray(signer.signedAttributes)
+    }
+    try {
+      return doVerifySignature(signed, signer.signature, certificate.publicKey, {
+        der: true, hash: true, userId: options.userId,
+      })
+    } catch (error) {
+      return false
+    }
+  })
+}
+
+export type ContentEncryptionAlgorithm = 'sm4-cbc' | 'sm4-gcm'
+
+export interface EnvelopedDataOptions {
+  /** 接收者证书 */
+  recipients: (Certificate | string | Uint8Array)[]
+  /** 内容加密算法，默认为 sm4-cbc */
+  algorithm?: ContentEncryptionAlgorithm
+  /** 接收者标识方式，默认为签发者和序列号 */
+  recipientIdentifier?: 'issuerAndSerialNumber' | 'subjectKeyIdentifier'
+  format?: KeyFormat
+}
+
+export interface RecipientInfo {
+  version: number
+  /** 使用签发者和序列号标识接收者时存在 */
+  issuer?: DistinguishedName
+  serialNumber?: string
+  /** 使用密钥标识标识接收者时存在 */
+  subjectKeyIdentifier?: string
+  keyEncryptionAlgorithm: string
+  /** ASN.1 编码的 SM2 密文（SM2Cipher），16 进制串 */
+  encryptedKey: string
+}
+
+export interface EnvelopedData {
+  hex: string
+  version: number
+  recipients: RecipientInfo[]
+  contentType: string
+  contentEncryptionAlgorithm: string
+  /** CBC 模式的 iv 或 GCM 模式的 nonce，16 进制串 */
+  iv: string
+  /** 密文，GCM 模式下末尾附带 tag */
+  encryptedContent: Uint8Array
+  /** GCM 模式的 tag 字节数（GCMParameters 的 ICVlen，缺省为 12），目前只支持 16 */
+  tagLength?: number
+}
+
+export interface OpenEnvelopedDataOptions {
+  /** 接收者证书，用于匹配 RecipientInfo */
+  certificate: Certificate | string | Uint8Array
+  privateKey: string | SM2PrivateKey
+}
+
+const GCM_TAG_LENGTH = 16
+
+function subjectKeyIdentifier(cert: Certificate) {
+  return cert.subjectKeyIdentifier || keyIdentifier(cert.publicKey)
+}
+
+/**
+ * 生成 GM/T 0010 EnvelopedData（数字信封），内容使用随机 SM4 密钥加密，密钥使用各接收者的 SM2 公钥加密
+ */
+export function createEnvelopedData(content: string | Uint8Array, options: EnvelopedDataOptions & { format: 'der' }): Uint8Array
+export function createEnvelopedData(content: string | Uint8Array, options: EnvelopedDataOptions & { format?: 'pem' }): string
+export function createEnvelopedData(content: string | Uint8Array, options: EnvelopedDataOptions): string | Uint8Array {
+  const { algorithm: mode = 'sm4-cbc', recipientIdentifier = 'issuerAndSerialNumber', format } = options
+  if (!options.recipients.length) throw new Error('at least one recipient is required')
+  if (mode !== 'sm4-cbc' && mode !== 'sm4-gcm') throw new Error('unsupported content encryption algorithm: ' + mode)
+  const data = toBytes(content)
+  const key = randomBytes(16)
+  const useKeyId = recipientIdentifier === 'subjectKeyIdentifier'
+
+  const recipients = options.recipients.map(toCertificate).map(cert => {
+    const rid = useKeyId
+      ? new DERTaggedObject(0, new DEROctetString(subjectKeyIdentifier(cert)), false)
+      : new DERSequence([new DERRaw(cert.issuer.hex), new DERInteger(utils.hexToNumber(cert.serialNumber))])
+    return new DERSequence([
+      new DERInteger(useKeyId ? TWO : ZERO),
+      rid,
+      algorithm(OID_SM2_ENCRYPT),
+      new DEROctetString(doEncrypt(key, cert.publicKey, 1, { asn1: true })),
+    ])
+  })
+
+  let contentAlgorithm: DERSequence
+  let encrypted: Uint8Array
+  if (mode === 'sm4-gcm') {
+    const nonce = randomBytes(12)
+    const { output, tag } = sm4.encrypt(data, key, {
+      mode: 'gcm', iv: nonce, output: 'array', outputTag: true,
+    })
+    // GCMParameters ::= SEQUENCE { aes-nonce OCTET STRING, aes-ICVlen INTEGER DEFAULT 12 }
+    contentAlgorithm = new DERSequence([
+      new DERObjectIdentifier(OID_SM4_GCM),
+      new DERSequence([new DEROctetString(bytesToHex(nonce)), new DERInteger(BigInt(GCM_TAG_LENGTH))]),
+    ])
+    encrypted = utils.concatBytes(output, tag!)
+  } else {
+    const iv = randomBytes(16)
+    contentAlgorithm = new DERSequence([new DERObjectIdentifier(OID_SM4_CBC), new DEROctetString(bytesToHex(iv))])
+    encrypted = sm4.encrypt(data, key, { mode: 'cbc', iv, output: 'array' })
+  }
+
+  const der = new DERSequence([
+    new DERObjectIdentifier(OID_GM_ENVELOPED_DATA),
+    new DERTaggedObject(0, new DERSequence([
+      new DERInteger(useKeyId ? TWO : ZERO),
+      new DERSet(recipients),
+      new DERSequence([
+        new DERObjectIdentifier(OID_GM_DATA),
+        contentAlgorithm,
+        new DERTaggedObject(0, new DEROctetString(bytesToHex(encrypted)), false),
+      ]),
+    ])),
+  ]).getEncodedHex()
+  return toOutput(der, 'PKCS7', format)
+}
+
+function expectEnvelopeTag(node: ASN1Node | undefined, tag: number, what: string): ASN1Node {
+  if (!node || node.tag !== tag) throw new Error(`invalid enveloped data: bad ${what}`)
+  return node
+}
+
+function decodeRecipientInfo(node: ASN1Node): RecipientInfo {
+  const [version, rid, keyAlgorithm, encryptedKey] = expectEnvelopeTag(node, 0x30, 'recipient info').children
+  const recipient: RecipientInfo = {
+    version: Number(utils.hexToNumber(expectEnvelopeTag(version, 0x02, 'recipient info version').value || '00')),
+    keyEncryptionAlgorithm: hexToOid(expectEnvelopeTag(expectEnvelopeTag(keyAlgorithm, 0x30, 'key encryption algorithm').children[0], 0x06, 'key encryption algorithm').value),
+    encryptedKey: expectEnvelopeTag(encryptedKey, 0x04, 'encrypted key').value,
+  }
+  if (rid && rid.tag === 0x80) {
+    recipient.subjectKeyIdentifier = rid.value
+  } else {
+    const [name, serial] = expectEnvelopeTag(rid, 0x30, 'recipient identifier').children
+    recipient.issuer = decodeName(expectEnvelopeTag(name, 0x30, 'issuer'))
+    recipient.serialNumber = integerToHex(expectEnvelopeTag(serial, 0x02, 'serial number').value)
+  }
+  return recipient
+}
+
+/**
+ * 解析 EnvelopedData，支持 GM/T 0010 和 RFC 5652 的内容类型 OID
+ */
+export function parseEnvelopedData(input: string | Uint8Array): EnvelopedData {
+  const root = decodeAsn1(toDerHex(input, ['PKCS7', 'CMS']))
+  const [type, explicit] = expectEnvelopeTag(root, 0x30, 'content info').children
+  const oid = hexToOid(expectEnvelopeTag(type, 0x06, 'content type').value)
+  if (oid !== OID_GM_ENVELOPED_DATA && oid !== OID_PKCS7_ENVELOPED_DATA) throw new Error('invalid enveloped data: unexpected content type ' + oid)
+  const items = expectEnvelopeTag(expectEnvelopeTag(explicit, 0xa0, 'content').children[0], 0x30, 'enveloped data').children.slice()
+  const version = Number(utils.hexToNumber(expectEnvelopeTag(items.shift(), 0x02, 'version').value || '00'))
+  // 跳过 RFC 5652 中的 originatorInfo
+  if (items[0] && items[0].tag === 0xa0) items.shift()
+  const recipients = expectEnvelopeTag(items.shift(), 0x31, 'recipient infos').children.map(decodeRecipientInfo)
+  const [contentType, contentAlgorithm, encryptedContent] = expectEnvelopeTag(items.shift(), 0x30, 'encrypted content info').children
+  const [algorithmOid, parameters] = expectEnvelopeTag(contentAlgorithm, 0x30, 'content encryption algorithm').children
+  const contentEncryptionAlgorithm = hexToOid(expectEnvelopeTag(algorithmOid, 0x06, 'content encryption algorithm').value)
+  let iv = ''
+  let tagLength: number | undefined
+  if (parameters && parameters.tag === 0x04) iv = parameters.value
+  else if (parameters && parameters.tag === 0x30) {
+    // GCMParameters ::= SEQUENCE { aes-nonce OCTET STRING, aes-ICVlen INTEGER DEFAULT 12 }
+    const [nonce, icvLength] = parameters.children
+    iv = expectEnvelopeTag(nonce, 0x04, 'gcm parameters').value
+    tagLength = icvLength ? Number(utils.hexToNumber(expectEnvelopeTag(icvLength, 0x02, 'gcm parameters').value || '00')) : 12
+  }
+  if (!encryptedContent || (encryptedContent.tag !== 0x80 && encryptedContent.tag !== 0xa0)) throw new Error('invalid enveloped data: bad encrypted content')
+  // 兼容构造类型的分段密文
+  const ciphertext = encryptedContent.tag === 0xa0 ? encryptedContent.children.map(item => item.value).join('') : encryptedContent.value
+
+  return {
+    hex: root.hex,
+    version,
+    recipients,
+    contentType: hexToOid(expectEnvelopeTag(contentType, 0x06, 'content type').value),
+    contentEncryptionAlgorithm,
+    iv,
+    encryptedContent: hexToArray(ciphertext),
+    tagLength,
+  }
+}
+
+/**
+ * 使用接收者私钥打开 EnvelopedData，返回原文
+ */
+export function openEnvelopedData(input: EnvelopedData | string | Uint8Array, options: OpenEnvelopedDataOptions): Uint8Array {
+  const envelopedData = typeof input === 'object' && !(input instanceof Uint8Array) ? input : parseEnvelopedData(input)
+  const certificate = toCertificate(options.certificate)
+  const recipient = envelopedData.recipients.find(item => (item.subjectKeyIdentifier
+    ? item.subjectKeyIdentifier === subjectKeyIdentifier(certificate)
+    : item.issuer!.hex === certificate.issuer.hex && item.serialNumber === certificate.serialNumber))
+  if (!recipient) throw new Error('no recipient matches the certificate')
+  if (recipient.keyEncryptionAlgorithm !== OID_SM2_ENCRYPT && recipient.keyEncryptionAlgorithm !== OID_SM2) {
+    throw new Error('unsupported key encryption algorithm: ' + recipient.keyEncryptionAlgorithm)
+  }
+
+  let key: Uint8Array
+  try {
+    key = doDecrypt(recipient.encryptedKey, options.privateKey, 1, { asn1: true, output: 'array' })
+  } catch (error) {
+    key = new Uint8Array()
+  }
+  if (key.length !== 16) throw new Error('failed to decrypt content encryption key')
+
+  const { contentEncryptionAlgorithm, encryptedContent } = envelopedData
+  // 解密实现只支持 16 字节的 tag
+  const tagLength = envelopedData.tagLength === undefined ? GCM_TAG_LENGTH : envelopedData.tagLength
+  if (contentEncryptionAlgorithm === OID_SM4_GCM && tagLength !== GCM_TAG_LENGTH) throw new Error('unsupported GCM tag length: ' + tagLength)
+  const iv = hexToArray(envelopedData.iv)
+  try {
+    if (contentEncryptionAlgorithm === OID_SM4_GCM) {
+      if (encryptedContent.length < GCM_TAG_LENGTH) throw new Error('ciphertext too short')
+      const length = encryptedContent.length - GCM_TAG_LENGTH
+      return sm4.decrypt(encryptedContent.subarray(0, length), key, {
+        mode: 'gcm', iv, tag: encryptedContent.subarray(length), output: 'array',
+      })
+    }
+    if (contentEncryptionAlgorithm === OID_SM4_CBC) {
+      return sm4.decrypt(encryptedContent, key, { mode: 'cbc', iv, output: 'array' })
+    }
+  } catch (error) {
+    throw new Error('failed to decrypt content')
+  }
+  throw new Error('unsupported content encryption algorithm: ' + contentEncryptionAlgorithm)
+}
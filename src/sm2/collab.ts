@@ -0,0 +1,262 @@
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import * as utils from '@noble/curves/abstract/utils';
+import { field, sm2Curve } from './ec';
+import { ZERO } from './bn';
+import { KeyPair, arrayToHex, arrayToUtf8, generateKeyPairHex, hexToArray, leftPad, utf8ToHex } from './utils';
+import { encodeDer } from './asn1';
+import { decryptCipher, splitCipher } from './cipher';
+import { SM2PublicKey } from './keyobject';
+import { doVerifySignature, getHash } from '.';
+
+/**
+ * 两方协同 SM2：私钥 d 满足 (1 + d)^-1 = d1 * d2 mod n，d1 保存在客户端，d2 保存在服务端，
+ * 任何一方都不掌握完整的 d，协同产生的签名与普通 SM2 签名相同，协同解密的结果与 doDecrypt 相同
+ */
+
+export interface CollaborativeOptions {
+  /** 自身的私钥分量 d1 或 d2 */
+  privateKeyShare: string
+  /** 协同公钥，客户端必须传入，用于计算 Z 值以及校验结果 */
+  publicKey?: string | ProjPointType<bigint> | SM2PublicKey
+}
+
+export interface CollaborativeSignOptions extends CollaborativeOptions {
+  /** 是否对原文做 SM3 杂凑（计算 Z 值），与 doSignature 相同，默认为 false，此时原文需为 32 字节的杂凑值 */
+  hash?: boolean
+  /** 计算 Z 值时的 userId，默认为 1234567812345678 */
+  userId?: string
+  /** 是否输出 DER 编码的签名 */
+  der?: boolean
+}
+
+export interface CollaborativeSignRequest {
+  /** Q1 = k1 * G */
+  q1: string
+  /** 待签名的杂凑值 e */
+  e: string
+}
+
+export interface CollaborativeSignResponse {
+  r: string
+  /** s2 = d2 * k3 */
+  s2: string
+  /** s3 = d2 * (r + k2) */
+  s3: string
+}
+
+export interface CollaborativeDecryptOptions extends CollaborativeOptions {
+  /** 1 - C1C3C2，0 - C1C2C3，默认为 1 */
+  cipherMode?: number
+  /** 密文是否为 ASN.1 编码 */
+  asn1?: boolean
+}
+
+export interface CollaborativeDecryptRequest {
+  /** T1 = k * d1^-1 * C1，k 为客户端的随机致盲因子 */
+  t1: string
+}
+
+export interface CollaborativeDecryptResponse {
+  /** T2 = d2^-1 * T1 */
+  t2: string
+}
+
+type CollaborativeRole = 'client' | 'server'
+type CollaborativeState = 'initial' | 'started' | 'done'
+
+function toHex(num: bigint) {
+  return leftPad(utils.numberToHexUnpadded(num), 64)
+}
+
+function toScalar(hex: string, what: string) {
+  if (typeof hex !== 'string' || !/^[0-9a-fA-F]{1,64}$/.test(hex)) throw new Error(`invalid ${what}`)
+  const num = utils.hexToNumber(hex)
+  if (num <= ZERO || num >= sm2Curve.CURVE.n) throw new Error(`invalid ${what}`)
+  return num
+}
+
+function toPoint(hex: string, what: string) {
+  let point: ProjPointType<bigint>
+  try {
+    point = sm2Curve.ProjectivePoint.fromHex(hex)
+    point.assertValidity()
+  } catch (error) {
+    throw new Error(`invalid ${what}`)
+  }
+  return point
+}
+
+/**
+ * 生成一方的私钥分量 di 以及公钥分量 Pi = di^-1 * G，公钥分量发送给对方
+ */
+export function generateKeyShare(): KeyPair {
+  const { privateKey } = generateKeyPairHex()
+  const d = utils.hexToNumber(privateKey)
+  return { privateKey, publicKey: sm2Curve.ProjectivePoint.BASE.multiply(field.inv(d)).toHex(false) }
+}
+
+/**
+ * 由自身私钥分量和对方公钥分量计算协同公钥 P = (d1 * d2)^-1 * G - G，双方结果相同
+ */
+export function combinePublicKey(privateKeyShare: string, peerPublicKeyShare: string) {
+  const d = toScalar(privateKeyShare, 'private key share')
+  const point = toPoint(peerPublicKeyShare, 'public key share').multiply(field.inv(d)).subtract(sm2Curve.ProjectivePoint.BASE)
+  if (point.equals(sm2Curve.ProjectivePoint.ZERO)) throw new Error('invalid public key share')
+  return point.toHex(false)
+}
+
+/**
+ * 有状态的协同签名会话，一个实例只能完成一次签名
+ * 客户端：start(msg) -> finish(response)
+ * 服务端：respond(request)
+ */
+export class SM2CollaborativeSign {
+  private state: CollaborativeState = 'initial'
+  private k1: bigint | null = null
+  private e: string | null = null
+
+  constructor(public readonly role: CollaborativeRole, private readonly options: CollaborativeSignOptions) {
+    if (role !== 'client' && role !== 'server') throw new Error('invalid collaborative role')
+    toScalar(options.privateKeyShare, 'private key share')
+    if (role === 'client' && !options.publicKey) throw new Error('publicKey is required for the client')
+  }
+
+  /**
+   * 客户端第一步：生成 k1，输出 Q1 和 e
+   */
+  start(msg: string | Uint8Array): CollaborativeSignRequest {
+    this.assertStep('client', 'initial', 'start')
+    const { hash, userId, publicKey } = this.options
+    let hashHex = typeof msg === 'string' ? utf8ToHex(msg) : arrayToHex(Array.from(msg))
+    // sm3杂凑
+    if (hash) hashHex = getHash(hashHex, publicKey!, userId)
+    else if (hashHex.length !== 64) throw new Error('msg should be a 32-byte digest when hash is false')
+    const keypair = generateKeyPairHex()
+    this.k1 = utils.hexToNumber(keypair.privateKey)
+    this.e = hashHex
+    this.state = 'started'
+    return { q1: keypair.publicKey, e: hashHex }
+  }
+
+  /**
+   * 服务端：接收 Q1 和 e，输出 r、s2、s3
+   */
+  respond(request: CollaborativeSignRequest): CollaborativeSignResponse {
+    this.assertStep('server', 'initial', 'respond')
+    this.state = 'done'
+    const q1 = toPoint(request.q1, 'Q1')
+    // 只对 32 字节的 SM3 杂凑值签名
+    if (typeof request.e !== 'string' || !/^[0-9a-fA-F]{64}$/.test(request.e)) throw new Error('invalid e')
+    const e = utils.hexToNumber(request.e)
+    const d2 = utils.hexToNumber(this.options.privateKeyShare)
+    for (;;) {
+      const k2 = utils.hexToNumber(generateKeyPairHex().privateKey)
+      const k3 = utils.hexToNumber(generateKeyPairHex().privateKey)
+      // (x1, y1) = k3 * Q1 + k2 * G
+      const point = q1.multiply(k3).add(sm2Curve.ProjectivePoint.BASE.multiply(k2))
+      if (point.equals(sm2Curve.ProjectivePoint.ZERO)) continue
+      // r = (e + x1) mod n
+      const r = field.add(e, point.toAffine().x)
+      if (r === ZERO) continue
+      return { r: toHex(r), s2: toHex(field.mul(d2, k3)), s3: toHex(field.mul(d2, field.add(r, k2))) }
+    }
+  }
+
+  /**
+   * 客户端第二步：接收 r、s2、s3，计算 s = d1 * k1 * s2 + d1 * s3 - r，输出校验通过的签名
+   */
+  finish(response: CollaborativeSignResponse) {
+    this.assertStep('client', 'started', 'finish')
+    const { privateKeyShare, publicKey, der } = this.options
+    const k1 = this.k1!
+    const e = this.e!
+    this.k1 = null
+    this.e = null
+    this.state = 'done'
+    const r = toScalar(response.r, 'r')
+    const s2 = toScalar(response.s2, 's2')
+    const s3 = toScalar(response.s3, 's3')
+    const d1 = utils.hexToNumber(privateKeyShare)
+    const s = field.sub(field.add(field.mul(field.mul(d1, k1), s2), field.mul(d1, s3)), r)
+    if (s === ZERO || field.add(s, r) === ZERO) throw new Error('collaborative signature failed, please retry')
+    const signature = toHex(r) + toHex(s)
+    // 校验结果，防止服务端返回错误的分量
+    if (!doVerifySignature(hexToArray(e), signature, publicKey!)) throw new Error('collaborative signature verification failed')
+    return der ? encodeDer(r, s) : signature
+  }
+
+  private assertStep(role: CollaborativeRole, state: CollaborativeState, step: string) {
+    if (this.role !== role) throw new Error(`${step}() can only be called by the ${role}`)
+    if (this.state !== state) throw new Error(`${step}() called out of order or session already used`)
+  }
+}
+
+/**
+ * 有状态的协同解密会话，一个实例只能完成一次解密
+ * 客户端：start(encryptData) -> finish(response)
+ * 服务端：respond(request)
+ */
+export class SM2CollaborativeDecrypt {
+  private state: CollaborativeState = 'initial'
+  private k: bigint | null = null
+  private cipher: ReturnType<typeof splitCipher> | null = null
+
+  constructor(public readonly role: CollaborativeRole, private readonly options: CollaborativeDecryptOptions) {
+    if (role !== 'client' && role !== 'server') throw new Error('invalid collaborative role')
+    toScalar(options.privateKeyShare, 'private key share')
+  }
+
+  /**
+   * 客户端第一步：解析密文，输出致盲后的 T1
+   */
+  start(encryptData: string): CollaborativeDecryptRequest {
+    this.assertStep('client', 'initial', 'start')
+    const { privateKeyShare, cipherMode = 1, asn1 = false } = this.options
+    const cipher = splitCipher(hexToArray(encryptData), cipherMode, asn1)
+    cipher.c1.assertValidity()
+    this.k = utils.hexToNumber(generateKeyPairHex().privateKey)
+    this.cipher = cipher
+    this.state = 'started'
+    const d1 = utils.hexToNumber(privateKeyShare)
+    return { t1: cipher.c1.multiply(field.mul(this.k, field.inv(d1))).toHex(false) }
+  }
+
+  /**
+   * 服务端：接收 T1，输出 T2
+   */
+  respond(request: CollaborativeDecryptRequest): CollaborativeDecryptResponse {
+    this.assertStep('server', 'initial', 'respond')
+    this.state = 'done'
+    const t1 = toPoint(request.t1, 'T1')
+    if (t1.equals(sm2Curve.ProjectivePoint.ZERO)) throw new Error('invalid T1')
+    const d2 = utils.hexToNumber(this.options.privateKeyShare)
+    return { t2: t1.multiply(field.inv(d2)).toHex(false) }
+  }
+
+  /**
+   * 客户端第二步：接收 T2，计算 d * C1 = k^-1 * T2 - C1，解出明文并校验 C3，校验失败时与 doDecrypt 一样返回空值
+   */
+  finish(response: CollaborativeDecryptResponse, options: { output: 'array' }): Uint8Array
+  finish(response: CollaborativeDecryptResponse, options?: { output?: 'string' }): string
+  finish(response: CollaborativeDecryptResponse, options: { output?: 'string' | 'array' } = {}): ArrayLike<any> | string {
+    this.assertStep('client', 'started', 'finish')
+    const { output = 'string' } = options
+    const k = this.k!
+    const { c1, c2, c3 } = this.cipher!
+    this.k = null
+    this.cipher = null
+    this.state = 'done'
+    const p = toPoint(response.t2, 'T2').multiply(field.inv(k)).subtract(c1)
+    const msg = p.equals(sm2Curve.ProjectivePoint.ZERO) ? null : decryptCipher(p, c2, c3)
+    if (msg) {
+      return output === 'array' ? msg : arrayToUtf8(msg)
+    } else {
+      return output === 'array' ? [] : ''
+    }
+  }
+
+  private assertStep(role: CollaborativeRole, state: CollaborativeState, step: string) {
+    if (this.role !== role) throw new Error(`${step}() can only be called by the ${role}`)
+    if (this.state !== state) throw new Error(`${step}() called out of order or session already used`)
+  }
+}
@@ -0,0 +1,198 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import {
+  ASN1Node, ASN1Object, DERInteger, DERObjectIdentifier, DEROctetString, DERRaw, DERSequence, DERTaggedObject, DERTime, decodeAsn1, hexToOid,
+} from './asn1'
+import { ONE } from './bn';
+import { KeyFormat, toDerHex } from './keys'
+import {
+  OID_AUTHORITY_KEY_IDENTIFIER, OID_CRL_NUMBER, OID_CRL_REASON, OID_SM2_SM3,
+} from './oid'
+import { hexToArray, leftPad } from './utils'
+import {
+  Certificate, DistinguishedName, Extension, decodeExtensions, decodeName, decodeTime, encodeExtension, integerToHex, keyIdentifier,
+  signTbs, toCertificate, toIssuerPublicKey, toOutput,
+} from './x509'
+import { SM2PrivateKey, SM2PublicKey } from './keyobject'
+import { doVerifySignature, getPublicKeyFromPrivateKey } from '.'
+
+export interface RevokedCertificate {
+  /** 序列号，16 进制串 */
+  serialNumber: string
+  revocationDate: Date
+  /** 吊销原因，RFC 5280 CRLReason，如 1 为 keyCompromise */
+  reason?: number
+}
+
+export interface CertificateRevocationList {
+  /** CRL der 编码的 16 进制串 */
+  hex: string
+  /** 待签名部分 der 编码的 16 进制串 */
+  tbsCertList: string
+  version: number
+  signatureAlgorithm: string
+  issuer: DistinguishedName
+  thisUpdate: Date
+  nextUpdate?: Date
+  revokedCertificates: RevokedCertificate[]
+  extensions: Extension[]
+  authorityKeyIdentifier?: string
+  /** CRL 序号，16 进制串 */
+  crlNumber?: string
+  /** der 编码的签名值 */
+  signature: string
+}
+
+export interface CrlOptions {
+  /** 签发者证书 */
+  issuer: Certificate | string | Uint8Array
+  issuerPrivateKey: string | SM2PrivateKey
+  revokedCertificates?: { serialNumber: string, revocationDate?: Date, reason?: number }[]
+  /** 默认为当前时间 */
+  thisUpdate?: Date
+  nextUpdate?: Date
+  /** CRL 序号，16 进制串 */
+  crlNumber?: string
+  /** 签名使用的 userId，默认为 1234567812345678 */
+  userId?: string
+  format?: KeyFormat
+}
+
+function expectTag(node: ASN1Node | undefined, tag: number, what: string): ASN1Node {
+  if (!node || node.tag !== tag) throw new Error(`invalid CRL: bad ${what}`)
+  return node
+}
+
+function isTime(node: ASN1Node | undefined) {
+  return !!node && (node.tag === 0x17 || node.tag === 0x18)
+}
+
+function decodeRevokedCertificate(node: ASN1Node): RevokedCertificate {
+  const [serial, date, extensions] = expectTag(node, 0x30, 'revoked certificate').children
+  if (!isTime(date)) throw new Error('invalid CRL: bad revocation date')
+  const revoked: RevokedCertificate = {
+    serialNumber: integerToHex(expectTag(serial, 0x02, 'revoked certificate').value),
+    revocationDate: decodeTime(date),
+  }
+  for (const ext of extensions && extensions.tag === 0x30 ? extensions.children : []) {
+    const [oid, ...rest] = ext.children
+    const value = rest[rest.length - 1]
+    if (oid && value && hexToOid(oid.value) === OID_CRL_REASON) {
+      revoked.reason = Number(utils.hexToNumber(decodeAsn1(value.value).value || '00'))
+    }
+  }
+  return revoked
+}
+
+/**
+ * 解析证书吊销列表，输入可以为 PEM、der 字节数组或 der 16 进制串
+ */
+export function parseCrl(input: string | Uint8Array): CertificateRevocationList {
+  const root = decodeAsn1(toDerHex(input, ['X509 CRL']))
+  const [tbs, algorithm, signature] = expectTag(root, 0x30, 'structure').children
+  expectTag(tbs, 0x30, 'tbsCertList')
+  const signatureAlgorithm = hexToOid(expectTag(expectTag(algorithm, 0x30, 'signature algorithm').children[0], 0x06, 'signature algorithm').value)
+  expectTag(signature, 0x03, 'signature')
+
+  const items = tbs.children.slice()
+  let version = 1
+  if (items[0] && items[0].tag === 0x02) version = Number(utils.hexToNumber(items.shift()!.value)) + 1
+  const innerAlgorithm = expectTag(items.shift(), 0x30, 'signature algorithm')
+  if (hexToOid(innerAlgorithm.children[0]?.value || '') !== signatureAlgorithm) throw new Error('invalid CRL: signature algorithm mismatch')
+  const issuer = decodeName(expectTag(items.shift(), 0x30, 'issuer'))
+  const thisUpdate = items.shift()
+  if (!isTime(thisUpdate)) throw new Error('invalid CRL: bad thisUpdate')
+  const nextUpdate = isTime(items[0]) ? decodeTime(items.shift()!) : undefined
+  const revoked = items[0] && items[0].tag === 0x30 ? items.shift()!.children : []
+  const extensionsNode = items.find(item => item.tag === 0xa0)
+
+  const crl: CertificateRevocationList = {
+    hex: root.hex,
+    tbsCertList: tbs.hex,
+    version,
+    signatureAlgorithm,
+    issuer,
+    thisUpdate: decodeTime(thisUpdate!),
+    nextUpdate,
+    revokedCertificates: revoked.map(decodeRevokedCertificate),
+    extensions: [],
+    signature: signature!.value.substring(2),
+  }
+  if (extensionsNode) {
+    const { extensions, authorityKeyIdentifier } = decodeExtensions(expectTag(extensionsNode.children[0], 0x30, 'extensions'))
+    crl.extensions = extensions
+    crl.authorityKeyIdentifier = authorityKeyIdentifier
+    const crlNumber = extensions.find(ext => ext.oid === OID_CRL_NUMBER)
+    if (crlNumber) crl.crlNumber = integerToHex(decodeAsn1(crlNumber.value).value)
+  }
+  return crl
+}
+
+export function toCrl(input: CertificateRevocationList | string | Uint8Array) {
+  return typeof input === 'object' && !(input instanceof Uint8Array) ? input : parseCrl(input)
+}
+
+/**
+ * 使用签发者公钥验证 CRL 签名（SM2-with-SM3，计算 Z 值），签名算法不是 SM2-with-SM3 时返回 false
+ * @param issuer 签发者公钥或签发者证书
+ */
+export function verifyCrl(
+  crl: CertificateRevocationList | string | Uint8Array,
+  issuer: Certificate | string | ProjPointType<bigint> | SM2PublicKey,
+  options: { userId?: string } = {},
+) {
+  const list = toCrl(crl)
+  const issuerPublicKey = toIssuerPublicKey(issuer)
+  if (list.signatureAlgorithm !== OID_SM2_SM3) return false
+  try {
+    return doVerifySignature(hexToArray(list.tbsCertList), list.signature, issuerPublicKey, {
+      der: true,
+      hash: true,
+      userId: options.userId,
+    })
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * 签发证书吊销列表（v2）
+ */
+export function createCrl(options: CrlOptions & { format: 'der' }): Uint8Array
+export function createCrl(options: CrlOptions & { format?: 'pem' }): string
+export function createCrl(options: CrlOptions): string | Uint8Array {
+  const {
+    issuerPrivateKey, revokedCertificates = [], crlNumber, userId, format,
+  } = options
+  const issuer = toCertificate(options.issuer)
+  if (getPublicKeyFromPrivateKey(issuerPrivateKey) !== issuer.publicKey) throw new Error('issuer private key does not match issuer public key')
+  const thisUpdate = options.thisUpdate || new Date()
+
+  const items: ASN1Object[] = [
+    new DERInteger(ONE),
+    new DERSequence([new DERObjectIdentifier(OID_SM2_SM3)]),
+    new DERRaw(issuer.subject.hex),
+    new DERTime(thisUpdate),
+  ]
+  if (options.nextUpdate) items.push(new DERTime(options.nextUpdate))
+  if (revokedCertificates.length) {
+    items.push(new DERSequence(revokedCertificates.map(item => {
+      const entry: ASN1Object[] = [new DERInteger(utils.hexToNumber(item.serialNumber)), new DERTime(item.revocationDate || thisUpdate)]
+      if (item.reason !== undefined) {
+        // CRLReason ::= ENUMERATED
+        entry.push(new DERSequence([encodeExtension(OID_CRL_REASON, false, new DERRaw('0a01' + leftPad(item.reason.toString(16), 2)))]))
+      }
+      return new DERSequence(entry)
+    })))
+  }
+  const extensions = [
+    encodeExtension(OID_AUTHORITY_KEY_IDENTIFIER, false, new DERSequence([
+      new DERTaggedObject(0, new DEROctetString(issuer.subjectKeyIdentifier || keyIdentifier(issuer.publicKey)), false),
+    ])),
+  ]
+  if (crlNumber) extensions.push(encodeExtension(OID_CRL_NUMBER, false, new DERInteger(utils.hexToNumber(crlNumber))))
+  items.push(new DERTaggedObject(0, new DERSequence(extensions)))
+
+  const tbs = new DERSequence(items).getEncodedHex()
+  return toOutput(signTbs(tbs, issuerPrivateKey, issuer.publicKey, userId), 'X509 CRL', format)
+}
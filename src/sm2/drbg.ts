@@ -0,0 +1,268 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { utf8ToArray } from '@/sm3';
+import * as sm4 from '@/sm4';
+import { RandomSource, systemRandomBytes } from './rng';
+import { sm3 } from './sm3';
+
+/**
+ * GM/T 0105 中基于 SM3 的 Hash_DRBG 和基于 SM4 的 CTR_DRBG，算法与 NIST SP 800-90A 相同
+ */
+
+export interface DrbgOptions {
+  /** 个性化字符串，字符串按 utf8 处理 */
+  personalization?: string | Uint8Array
+  /** 熵源，默认为平台提供的随机数，不受 setRandomSource 影响 */
+  entropySource?: RandomSource
+  /** 生成次数达到该值后，下次 generate 前自动重播种，默认为 2^20 */
+  reseedInterval?: number
+}
+
+const DEFAULT_RESEED_INTERVAL = 2 ** 20
+// 单次最多输出 2^19 比特
+const MAX_BYTES_PER_REQUEST = 2 ** 16
+const ENTROPY_LENGTH = 32
+const NONCE_LENGTH = 16
+
+function toBytes(input?: string | Uint8Array) {
+  if (input === undefined) return new Uint8Array()
+  return typeof input === 'string' ? utf8ToArray(input) : input
+}
+
+/**
+ * v = (v + x) mod 2^(8 * v.length)，x 按大端右对齐，原地修改 v
+ */
+function addBytes(v: Uint8Array, x: Uint8Array) {
+  let carry = 0
+  for (let i = v.length - 1, j = x.length - 1; i >= 0; i--, j--) {
+    const sum = v[i] + (j >= 0 ? x[j] : 0) + carry
+    v[i] = sum & 0xff
+    carry = sum >> 8
+  }
+}
+
+const ONE_BYTE = new Uint8Array([1])
+
+/**
+ * DRBG 的公共流程：实例化、重播种、按重播种计数器自动重播种
+ */
+export abstract class DRBG {
+  private counter = 0
+  private readonly reseedInterval: number
+  private readonly entropySource: RandomSource
+
+  constructor(options: DrbgOptions) {
+    const { reseedInterval = DEFAULT_RESEED_INTERVAL, entropySource = systemRandomBytes } = options
+    if (!Number.isInteger(reseedInterval) || reseedInterval < 1) throw new Error('invalid reseed interval')
+    this.reseedInterval = reseedInterval
+    this.entropySource = entropySource
+  }
+
+  /** 重播种计数器，实例化或重播种后为 1，每次 generate 后加 1 */
+  get reseedCounter() {
+    return this.counter
+  }
+
+  /**
+   * 实例化，由子类的构造函数调用
+   */
+  protected instantiate(personalization?: string | Uint8Array) {
+    const entropy = this.getEntropy(ENTROPY_LENGTH)
+    const nonce = this.getEntropy(NONCE_LENGTH)
+    this.instantiateState(entropy, nonce, toBytes(personalization))
+    this.counter = 1
+  }
+
+  /**
+   * 从熵源获取新的熵输入并重播种
+   */
+  reseed(additionalInput?: string | Uint8Array) {
+    this.reseedState(this.getEntropy(ENTROPY_LENGTH), toBytes(additionalInput))
+    this.counter = 1
+  }
+
+  /**
+   * 生成 length 字节的随机数，单次最多 65536 字节
+   */
+  generate(length: number, additionalInput?: string | Uint8Array) {
+    if (!Number.isInteger(length) || length < 0 || length > MAX_BYTES_PER_REQUEST) throw new Error('invalid DRBG request length')
+    let additional = toBytes(additionalInput)
+    if (this.counter > this.reseedInterval) {
+      // 额外输入已在重播种时使用
+      this.reseed(additional)
+      additional = new Uint8Array()
+    }
+    const output = this.generateState(length, additional)
+    this.counter++
+    return output
+  }
+
+  private getEntropy(length: number) {
+    const entropy = this.entropySource(length)
+    if (!(entropy instanceof Uint8Array) || entropy.length !== length) throw new Error(`entropy source should return ${length} bytes`)
+    return entropy
+  }
+
+  protected abstract instantiateState(entropy: Uint8Array, nonce: Uint8Array, personalization: Uint8Array): void
+  protected abstract reseedState(entropy: Uint8Array, additionalInput: Uint8Array): void
+  protected abstract generateState(length: number, additionalInput: Uint8Array): Uint8Array
+}
+
+// Hash_DRBG 的 seedlen 为 440 比特
+const HASH_SEED_LENGTH = 55
+
+/**
+ * Hash_df，输出 length 字节
+ */
+function hashDf(inputs: Uint8Array[], length: number) {
+  const output = new Uint8Array(Math.ceil(length / 32) * 32)
+  // counter || no_of_bits_to_return
+  const head = new Uint8Array(5)
+  new DataView(head.buffer).setUint32(1, length * 8, false)
+  for (let i = 0; i * 32 < length; i++) {
+    head[0] = i + 1
+    output.set(sm3(utils.concatBytes(head, ...inputs)), i * 32)
+  }
+  return output.slice(0, length)
+}
+
+/**
+ * 基于 SM3 的 Hash_DRBG
+ */
+export class SM3HashDRBG extends DRBG {
+  private v = new Uint8Array(HASH_SEED_LENGTH)
+  private c = new Uint8Array(HASH_SEED_LENGTH)
+
+  constructor(options: DrbgOptions = {}) {
+    super(options)
+    this.instantiate(options.personalization)
+  }
+
+  protected instantiateState(entropy: Uint8Array, nonce: Uint8Array, personalization: Uint8Array) {
+    this.v = hashDf([entropy, nonce, personalization], HASH_SEED_LENGTH)
+    this.c = hashDf([new Uint8Array([0]), this.v], HASH_SEED_LENGTH)
+  }
+
+  protected reseedState(entropy: Uint8Array, additionalInput: Uint8Array) {
+    this.v = hashDf([new Uint8Array([1]), this.v, entropy, additionalInput], HASH_SEED_LENGTH)
+    this.c = hashDf([new Uint8Array([0]), this.v], HASH_SEED_LENGTH)
+  }
+
+  protected generateState(length: number, additionalInput: Uint8Array) {
+    if (additionalInput.length) addBytes(this.v, sm3(utils.concatBytes(new Uint8Array([2]), this.v, additionalInput)))
+    // Hashgen
+    const data = Uint8Array.from(this.v)
+    const output = new Uint8Array(Math.ceil(length / 32) * 32)
+    for (let i = 0; i * 32 < length; i++) {
+      output.set(sm3(data), i * 32)
+      addBytes(data, ONE_BYTE)
+    }
+    // V = (V + H + C + reseed_counter) mod 2^seedlen
+    const h = sm3(utils.concatBytes(new Uint8Array([3]), this.v))
+    addBytes(this.v, h)
+    addBytes(this.v, this.c)
+    addBytes(this.v, utils.numberToBytesBE(BigInt(this.reseedCounter), 8))
+    return output.slice(0, length)
+  }
+}
+
+// CTR_DRBG 的 seedlen 为密钥长度 128 比特加分组长度 128 比特
+const BLOCK_LENGTH = 16
+const CTR_SEED_LENGTH = 32
+// Block_Cipher_df 使用的固定密钥 0x00010203...0f
+const DF_KEY = Uint8Array.from({ length: BLOCK_LENGTH }, (_, i) => i)
+
+function encryptBlocks(key: Uint8Array, data: Uint8Array) {
+  return sm4.encrypt(data, key, { mode: 'ecb', padding: 'none', output: 'array' })
+}
+
+/**
+ * BCC 即零 IV 的 CBC 加密的最后一个分组
+ */
+function bcc(key: Uint8Array, data: Uint8Array) {
+  return sm4.encrypt(data, key, { mode: 'cbc', iv: new Uint8Array(BLOCK_LENGTH), padding: 'none', output: 'array' }).slice(-BLOCK_LENGTH)
+}
+
+/**
+ * Block_Cipher_df，输出 length 字节
+ */
+function blockCipherDf(inputs: Uint8Array[], length: number) {
+  const input = utils.concatBytes(...inputs)
+  // S = L || N || input_string || 0x80，补 0 到分组长度的整数倍
+  const s = new Uint8Array(Math.ceil((input.length + 9) / BLOCK_LENGTH) * BLOCK_LENGTH)
+  const view = new DataView(s.buffer)
+  view.setUint32(0, input.length, false)
+  view.setUint32(4, length, false)
+  s.set(input, 8)
+  s[input.length + 8] = 0x80
+
+  const temp = new Uint8Array(CTR_SEED_LENGTH)
+  for (let i = 0; i * BLOCK_LENGTH < CTR_SEED_LENGTH; i++) {
+    const iv = new Uint8Array(BLOCK_LENGTH)
+    new DataView(iv.buffer).setUint32(0, i, false)
+    temp.set(bcc(DF_KEY, utils.concatBytes(iv, s)), i * BLOCK_LENGTH)
+  }
+  const key = temp.subarray(0, BLOCK_LENGTH)
+  let x: Uint8Array = temp.subarray(BLOCK_LENGTH)
+  const output = new Uint8Array(Math.ceil(length / BLOCK_LENGTH) * BLOCK_LENGTH)
+  for (let offset = 0; offset < length; offset += BLOCK_LENGTH) {
+    x = encryptBlocks(key, x)
+    output.set(x, offset)
+  }
+  return output.slice(0, length)
+}
+
+/**
+ * 基于 SM4 的 CTR_DRBG，使用派生函数
+ */
+export class SM4CtrDRBG extends DRBG {
+  private key = new Uint8Array(BLOCK_LENGTH)
+  private v = new Uint8Array(BLOCK_LENGTH)
+
+  constructor(options: DrbgOptions = {}) {
+    super(options)
+    this.instantiate(options.personalization)
+  }
+
+  protected instantiateState(entropy: Uint8Array, nonce: Uint8Array, personalization: Uint8Array) {
+    this.key = new Uint8Array(BLOCK_LENGTH)
+    this.v = new Uint8Array(BLOCK_LENGTH)
+    this.update(blockCipherDf([entropy, nonce, personalization], CTR_SEED_LENGTH))
+  }
+
+  protected reseedState(entropy: Uint8Array, additionalInput: Uint8Array) {
+    this.update(blockCipherDf([entropy, additionalInput], CTR_SEED_LENGTH))
+  }
+
+  protected generateState(length: number, additionalInput: Uint8Array) {
+    const additional = additionalInput.length ? blockCipherDf([additionalInput], CTR_SEED_LENGTH) : new Uint8Array(CTR_SEED_LENGTH)
+    if (additionalInput.length) this.update(additional)
+    let output: Uint8Array = new Uint8Array()
+    if (length) {
+      output = encryptBlocks(this.key, this.nextCounters(Math.ceil(length / BLOCK_LENGTH))).slice(0, length)
+    }
+    this.update(additional)
+    return output
+  }
+
+  /**
+   * 依次递增 V，返回 count 个计数器分组
+   */
+  private nextCounters(count: number) {
+    const counters = new Uint8Array(count * BLOCK_LENGTH)
+    for (let i = 0; i < count; i++) {
+      addBytes(this.v, ONE_BYTE)
+      counters.set(this.v, i * BLOCK_LENGTH)
+    }
+    return counters
+  }
+
+  /**
+   * CTR_DRBG_Update
+   */
+  private update(providedData: Uint8Array) {
+    const temp = encryptBlocks(this.key, this.nextCounters(CTR_SEED_LENGTH / BLOCK_LENGTH))
+    for (let i = 0; i < CTR_SEED_LENGTH; i++) temp[i] ^= providedData[i]
+    this.key = temp.slice(0, BLOCK_LENGTH)
+    this.v = temp.slice(BLOCK_LENGTH)
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * 严格模式解密的失败原因
+ * - INVALID_ENCODING：密文不是 16 进制串
+ * - TRUNCATED：密文长度不足
+ * - INVALID_ASN1：ASN.1 结构错误
+ * - INVALID_POINT：C1 不是曲线上的点
+ * - POINT_AT_INFINITY：C1 或 [h]C1 为无穷远点
+ * - KDF_ZERO：t = KDF(x2 || y2, klen) 全为 0
+ * - HASH_MISMATCH：C3 校验失败（私钥错误或密文被篡改）
+ */
+export type SM2DecryptErrorCode =
+  | 'INVALID_ENCODING'
+  | 'TRUNCATED'
+  | 'INVALID_ASN1'
+  | 'INVALID_POINT'
+  | 'POINT_AT_INFINITY'
+  | 'KDF_ZERO'
+  | 'HASH_MISMATCH'
+
+/**
+ * 严格模式解密失败时抛出，通过 code 区分失败原因
+ */
+export class SM2DecryptError extends Error {
+  constructor(public readonly code: SM2DecryptErrorCode, message: string) {
+    super(message)
+    this.name = 'SM2DecryptError'
+  }
+}
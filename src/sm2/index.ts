@@ -1,214 +1,385 @@
 /* eslint-disable no-use-before-define */
-import { encodeDer, decodeDer, encodeEnc, decodeEnc } from './asn1'
-import { arrayToHex, arrayToUtf8, generateKeyPairHex, hexToArray, leftPad, utf8ToHex } from './utils'
+import { decodeDerBytes, encodeDerBytes } from './asn1'
+import { arrayToHex, arrayToUtf8, generateKeyPairHex, hexToArray, leftPad } from './utils'
 import { sm3 } from './sm3'
 import * as utils from '@noble/curves/abstract/utils';
 import { field, sm2Curve } from './ec';
 import { ONE, ZERO } from './bn';
 import { bytesToHex } from '@/sm3/utils';
+import { utf8ToArray } from '@/sm3';
 import { ProjPointType } from '@noble/curves/abstract/weierstrass';
-import { kdf } from './kdf';
+import { C1Format, CipherFormat, decryptCipher, detectCipherFormats, encodeCipher, splitCipher, xorCipherStream } from './cipher';
+import { SM2DecryptError } from './errors';
+import { randomBytes } from './rng';
+import { SM2PrivateKey, SM2PublicKey, toPrivateKeyScalar, toPublicKeyPoint } from './keyobject';
 
 export * from './utils'
-export { initRNGPool } from './rng'
-export { calculateSharedKey } from './kx'
+export { initRNGPool, setRandomSource, createSeededRandomSource } from './rng'
+export type { RandomSource, RandomGenerator } from './rng'
+export { SM3HashDRBG, SM4CtrDRBG } from './drbg'
+export type { DrbgOptions } from './drbg'
+export { SM2DecryptError } from './errors'
+export type { C1Format, CipherFormat } from './cipher'
+export type { SM2DecryptErrorCode } from './errors'
+export { calculateSharedKey, calculateSharedKeyWithConfirmation, calculateKeyConfirmation, verifyKeyConfirmation, SM2KeyExchange } from './kx'
+export type { SharedKeyWithConfirmation, SM2KeyExchangeOptions, KeyExchangeMessage, KeyConfirmationMessage } from './kx'
+export { generateKeyShare, combinePublicKey, SM2CollaborativeSign, SM2CollaborativeDecrypt } from './collab'
+export type {
+  CollaborativeOptions, CollaborativeSignOptions, CollaborativeSignRequest, CollaborativeSignResponse,
+  CollaborativeDecryptOptions, CollaborativeDecryptRequest, CollaborativeDecryptResponse,
+} from './collab'
+export { verifyBatch } from './batch'
+export { SM2PrivateKey, SM2PublicKey } from './keyobject'
+export type { BatchVerifyItem, BatchVerifyOptions } from './batch'
+export {
+  exportPrivateKeyPkcs8, exportPrivateKeySec1, exportPublicKeySpki, importPrivateKey, importPublicKey, exportEncryptedPrivateKey, importEncryptedPrivateKey,
+} from './keys'
+export type {
+  KeyFormat, ExportKeyOptions, ExportPrivateKeyOptions, ExportEncryptedPrivateKeyOptions,
+} from './keys'
+export { encodePem, decodePem } from './pem'
+export {
+  parseCertificate, verifyCertificate, createCertificationRequest, parseCertificationRequest, verifyCertificationRequest, createCertificate,
+} from './x509'
+export type {
+  Certificate, DistinguishedName, NameAttribute, Extension, GeneralName, BasicConstraints, KeyUsage,
+  NameInput, ExtensionsInput, CertificationRequest, CertificationRequestOptions, CertificateOptions,
+} from './x509'
+export { parseCrl, verifyCrl, createCrl } from './crl'
+export type { CertificateRevocationList, RevokedCertificate, CrlOptions } from './crl'
+export { verifyCertificateChain } from './chain'
+export type { ChainValidationResult, ChainValidationOptions, ChainErrorReason } from './chain'
+export {
+  createSignedData, parseSignedData, verifySignedData, createEnvelopedData, parseEnvelopedData, openEnvelopedData,
+} from './cms'
+export type {
+  SignedData, SignerInfo, SignedDataOptions, VerifySignedDataOptions,
+  EnvelopedData, RecipientInfo, EnvelopedDataOptions, OpenEnvelopedDataOptions, ContentEncryptionAlgorithm,
+} from './cms'
+export {
+  encodePublicKeyBlob, decodePublicKeyBlob, encodePrivateKeyBlob, decodePrivateKeyBlob, encodeCipherBlob, decodeCipherBlob,
+  encodeSignatureBlob, decodeSignatureBlob, encodeEnvelopedKeyBlob, decodeEnvelopedKeyBlob, openEnvelopedKeyBlob, SGD_SM4_ECB,
+} from './blob'
+export type {
+  BlobOptions, CipherBlobOptions, SignatureBlobOptions, EnvelopedKeyBlob,
+} from './blob'
+export {
+  exportPublicKeyJwk, exportPrivateKeyJwk, importPublicKeyJwk, importPrivateKeyJwk, jwkThumbprint,
+} from './jwk'
+export type { SM2JsonWebKey, JwkParameters } from './jwk'
+export {
+  signJws, verifyJws, signJwsJson, verifyJwsJson, signJwt, verifyJwt,
+} from './jws'
+export type {
+  JwsHeader, JwsSignOptions, JwsVerifyOptions, JwsVerifyResult, JwsJson, JwsJsonSignature, JwsJsonSigner, JwtClaims, JwtVerifyOptions, JwtVerifyResult,
+} from './jws'
+export { encryptJwe, decryptJwe } from './jwe'
+export type {
+  JweHeader, JweEncryptKey, JweDecryptKey, JweEncryptOptions, JweDecryptOptions, JweDecryptResult,
+} from './jwe'
 
 const { getSharedSecret } = sm2Curve
 export { getSharedSecret as ecdh }
 
-function xorCipherStream(x2: Uint8Array, y2: Uint8Array, msg: Uint8Array) {
-  const stream = kdf(utils.concatBytes(x2, y2), msg.length)
-  
-  for (let i = 0, len = msg.length; i < len; i++) {
-    msg[i] ^= stream[i] & 0xff
-  }
+// a empty array, just make tsc happy
+export const EmptyArray = new Uint8Array()
+
+/** 公钥：04 开头的非压缩点、不带前缀的 x || y、压缩点、椭圆曲线点，或 SM2PublicKey */
+export type PublicKeyInput = Uint8Array | ProjPointType<bigint> | SM2PublicKey
+/** 私钥：32 字节或 SM2PrivateKey */
+export type PrivateKeyInput = Uint8Array | SM2PrivateKey
+
+export interface EncryptOptions {
+  /** 1 - C1C3C2，0 - C1C2C3，默认为 1 */
+  cipherMode?: number
+  /** 使用 ASN.1 对 C1 编码 */
+  asn1?: boolean
+  /** 非 ASN.1 时 C1 的编码，默认为 raw（不带 04 前缀） */
+  c1Format?: C1Format
 }
 
+export interface DecryptOptions extends EncryptOptions {
+  /** 严格模式，密文格式错误或 C3 校验失败时抛出 SM2DecryptError，而不是返回空值 */
+  strict?: boolean
+}
+
+function toMsgBytes(msg: string | Uint8Array) {
+  return typeof msg === 'string' ? utf8ToArray(msg) : msg
+}
+
+function privateKeyToBytes(privateKey: string | SM2PrivateKey) {
+  return typeof privateKey === 'string' ? hexToArray(leftPad(privateKey, 64)) : privateKey
+}
+
+function publicKeyToBytes(publicKey: string | ProjPointType<bigint> | SM2PublicKey) {
+  return typeof publicKey === 'string' ? hexToArray(publicKey) : publicKey
+}
 
-const C1C2C3 = 0
-// a empty array, just make tsc happy
-export const EmptyArray = new Uint8Array()
 /**
- * 加密
+ * 生成字节形式的密钥对，publicKey 为 04 开头的非压缩点
  */
-export function doEncrypt(msg: string | Uint8Array, publicKey: string | ProjPointType<bigint>, cipherMode = 1, options?: {
-  asn1?: boolean // 使用 ASN.1 对 C1 编码
-}) {
-
-  const msgArr = typeof msg === 'string' ? hexToArray(utf8ToHex(msg)) : Uint8Array.from(msg)
-  const publicKeyPoint = typeof publicKey === 'string' ? sm2Curve.ProjectivePoint.fromHex(publicKey) :
-    publicKey
+export function generateKeyPairBytes() {
+  const privateKey = sm2Curve.utils.randomPrivateKey()
+  return { privateKey, publicKey: sm2Curve.getPublicKey(privateKey, false) }
+}
 
-  const keypair = generateKeyPairHex()
-  const k = utils.hexToNumber(keypair.privateKey)
+/**
+ * 加密，输入输出均为字节
+ */
+export function encryptBytes(msg: Uint8Array, publicKey: PublicKeyInput, options: EncryptOptions = {}) {
+  const { cipherMode = 1, asn1 = false, c1Format = 'raw' } = options
+  const publicKeyPoint = toPublicKeyPoint(publicKey)
+
+  let k: bigint
+  let x2: Uint8Array
+  let y2: Uint8Array
+  let c2: Uint8Array
+  do {
+    k = utils.bytesToNumberBE(sm2Curve.utils.randomPrivateKey())
+    // (x2, y2) = k * publicKey
+    const { x, y } = publicKeyPoint.multiply(k).toAffine()
+    x2 = utils.numberToBytesBE(x, 32)
+    y2 = utils.numberToBytesBE(y, 32)
+    c2 = Uint8Array.from(msg)
+    // t = KDF(x2 || y2, klen) 全为 0 时重新选取 k
+  } while (!xorCipherStream(x2, y2, c2))
 
   // c1 = k * G
-  let c1 = keypair.publicKey
+  const c1 = sm2Curve.ProjectivePoint.BASE.multiply(k)
+  // c3 = hash(x2 || msg || y2)
+  const c3 = sm3(utils.concatBytes(x2, msg, y2))
+  return encodeCipher(c1, c2, c3, cipherMode, asn1, c1Format)
+}
 
-  if (c1.length > 128) c1 = c1.substring(c1.length - 128)
-  const p = publicKeyPoint.multiply(k)
-  
-  // (x2, y2) = k * publicKey
-  const x2 = hexToArray(leftPad(utils.numberToHexUnpadded(p.x), 64))
-  const y2 = hexToArray(leftPad(utils.numberToHexUnpadded(p.y), 64))
+/**
+ * 解密，输入输出均为字节，非严格模式下解密失败时返回 null
+ */
+export function decryptBytes(encryptData: Uint8Array, privateKey: PrivateKeyInput, options: DecryptOptions = {}) {
+  const { cipherMode = 1, asn1 = false, strict = false, c1Format = 'raw' } = options
+  const { c1, c2, c3 } = splitCipher(encryptData, cipherMode, asn1, strict, c1Format)
+  return decryptCipher(c1.multiply(toPrivateKeyScalar(privateKey)), c2, c3, strict)
+}
 
-  // c3 = hash(x2 || msg || y2)
-  const c3 = bytesToHex(sm3(utils.concatBytes(x2, msgArr, y2)));
-
-  xorCipherStream(x2, y2, msgArr)
-  const c2 = bytesToHex(msgArr)
-  if (options?.asn1) {
-    const point = sm2Curve.ProjectivePoint.fromHex(keypair.publicKey)
-    const encode = cipherMode === C1C2C3 ? 
-     encodeEnc(point.x, point.y, c2, c3) :
-     encodeEnc(point.x, point.y, c3, c2)
-    return encode
-  }
-  return cipherMode === C1C2C3 ? c1 + c2 + c3 : c1 + c3 + c2
+/**
+ * 加密
+ */
+export function doEncrypt(msg: string | Uint8Array, publicKey: string | ProjPointType<bigint> | SM2PublicKey, cipherMode = 1, options?: {
+  asn1?: boolean // 使用 ASN.1 对 C1 编码
+  c1Format?: C1Format // 非 ASN.1 时 C1 的编码，默认为 raw（不带 04 前缀）
+}) {
+  return bytesToHex(encryptBytes(toMsgBytes(msg), publicKeyToBytes(publicKey), { ...options, cipherMode }))
 }
 
 /**
  * 解密
  */
-export function doDecrypt(encryptData: string, privateKey: string, cipherMode?: number, options?: {
+export function doDecrypt(encryptData: string, privateKey: string | SM2PrivateKey, cipherMode?: number, options?: {
   output: 'array'
   asn1?: boolean
+  strict?: boolean
+  c1Format?: C1Format
 }): Uint8Array
-export function doDecrypt(encryptData: string, privateKey: string, cipherMode?: number, options?: {
+export function doDecrypt(encryptData: string, privateKey: string | SM2PrivateKey, cipherMode?: number, options?: {
   output?: 'string',
   asn1?: boolean
+  strict?: boolean
+  c1Format?: C1Format
 }): string
-export function doDecrypt(encryptData: string, privateKey: string, cipherMode = 1, options?: {
+export function doDecrypt(encryptData: string, privateKey: string | SM2PrivateKey, cipherMode = 1, options?: {
   output?: 'string' | 'array',
   asn1?: boolean
+  strict?: boolean // 严格模式，密文格式错误或 C3 校验失败时抛出 SM2DecryptError，而不是返回空值
+  c1Format?: C1Format // 非 ASN.1 时 C1 的编码，默认为 raw（不带 04 前缀）
 }): ArrayLike<any> | string {
-  const { output = 'string', asn1 = false } = options || {};
-  const privateKeyInteger = utils.hexToNumber(privateKey)
-
-  let c1: ProjPointType<bigint>
-  let c2: string
-  let c3: string
-  
-
-  if (asn1) {
-    const {x, y, cipher, hash} = decodeEnc(encryptData)
-    c1 = sm2Curve.ProjectivePoint.fromAffine({ x, y })
-    c3 = hash
-    c2 = cipher
-    if (cipherMode === C1C2C3) {
-      [c2, c3] = [c3, c2]
-    }
-  } else {
-    // c1c3c2
-    c1 = sm2Curve.ProjectivePoint.fromHex('04' + encryptData.substring(0, 128))!
-    c3 = encryptData.substring(128, 128 + 64)
-    c2 = encryptData.substring(128 + 64)
-  
-    if (cipherMode === C1C2C3) {
-      c3 = encryptData.substring(encryptData.length - 64)
-      c2 = encryptData.substring(128, encryptData.length - 64)
-    }
-  }
-  
-
-  const msg = hexToArray(c2)
-  const p = c1.multiply(privateKeyInteger)
-  const x2 = hexToArray(leftPad(utils.numberToHexUnpadded(p.x), 64))
-  const y2 = hexToArray(leftPad(utils.numberToHexUnpadded(p.y), 64))
+  const { output = 'string', ...rest } = options || {};
+  if (rest.strict) assertCipherHex(encryptData)
+  const msg = decryptBytes(hexToArray(encryptData), privateKeyToBytes(privateKey), { ...rest, cipherMode })
 
-  xorCipherStream(x2, y2, msg)
-  // c3 = hash(x2 || msg || y2)
-  const checkC3 = arrayToHex(Array.from(sm3(utils.concatBytes(x2, msg, y2))))
-  
-  if (checkC3 === c3.toLowerCase()) {
+  if (msg) {
     return output === 'array' ? msg : arrayToUtf8(msg)
   } else {
     return output === 'array' ? [] : ''
   }
 }
 
+function assertCipherHex(encryptData: string) {
+  if (typeof encryptData !== 'string' || !/^[0-9a-fA-F]*$/.test(encryptData) || encryptData.length % 2 !== 0) {
+    throw new SM2DecryptError('INVALID_ENCODING', 'ciphertext is not a hex string')
+  }
+}
+
+/**
+ * 自动识别密文格式并解密，返回明文及识别出的格式，无法解密时抛出 SM2DecryptError
+ * 依次尝试 ASN.1、不带前缀、04 前缀、压缩 C1 以及 C1C3C2、C1C2C3，以 C3 校验通过的格式为准
+ */
+export function doDecryptAuto(encryptData: string, privateKey: string | SM2PrivateKey, options: { output: 'array' }): { plaintext: Uint8Array, format: CipherFormat }
+export function doDecryptAuto(encryptData: string, privateKey: string | SM2PrivateKey, options?: { output?: 'string' }): { plaintext: string, format: CipherFormat }
+export function doDecryptAuto(encryptData: string, privateKey: string | SM2PrivateKey, options: { output?: 'string' | 'array' } = {}): { plaintext: Uint8Array | string, format: CipherFormat } {
+  const { output = 'string' } = options
+  assertCipherHex(encryptData)
+  const cipherBytes = hexToArray(encryptData)
+  const candidates = detectCipherFormats(cipherBytes)
+  if (!candidates.length) {
+    if (cipherBytes.length < 33 + 32) throw new SM2DecryptError('TRUNCATED', 'invalid ciphertext: truncated')
+    throw new SM2DecryptError('INVALID_POINT', 'invalid ciphertext: no known format has a valid C1')
+  }
+  const privateKeyInteger = toPrivateKeyScalar(privateKeyToBytes(privateKey))
+  // 同一 C1 只做一次点乘
+  const points = new Map<string, ProjPointType<bigint>>()
+  for (const { c1, c2, c3, format } of candidates) {
+    const key = c1.toHex(true)
+    let p = points.get(key)
+    if (!p) {
+      p = c1.multiply(privateKeyInteger)
+      points.set(key, p)
+    }
+    const msg = decryptCipher(p, c2, c3)
+    if (msg) return { plaintext: output === 'array' ? msg : arrayToUtf8(msg), format }
+  }
+  throw new SM2DecryptError('HASH_MISMATCH', 'decryption failed: C3 does not match in any known format')
+}
+
 export interface SignaturePoint {
   k: bigint
   x1: bigint
 }
 
+export interface SignOptions {
+  pointPool?: SignaturePoint[]
+  /** 输出 ASN.1 DER 编码的签名 */
+  der?: boolean
+  /** 是否对原文做 SM3 杂凑（计算 Z 值） */
+  hash?: boolean
+  /** 计算 Z 值使用的公钥，不传时由私钥计算 */
+  publicKey?: PublicKeyInput
+  userId?: string
+  /** 使用 HMAC-SM3 从私钥和消息杂凑派生随机数 k（RFC 6979），不依赖随机数发生器 */
+  deterministic?: boolean
+  /** 派生 k 时额外混入的 32 字节随机数，为 true 时自动生成 */
+  extraEntropy?: boolean | Uint8Array | string
+}
+
+export interface VerifyOptions {
+  /** 签名为 ASN.1 DER 编码 */
+  der?: boolean
+  hash?: boolean
+  userId?: string
+}
+
 /**
- * 签名
+ * 签名，输入输出均为字节，der 为 false 时输出 64 字节的 r || s
  */
-export function doSignature(msg: Uint8Array | string, privateKey: string, options: {
-  pointPool?: SignaturePoint[], der?: boolean, hash?: boolean, publicKey?: string, userId?: string
-} = {}) {
-  let {
-    pointPool, der, hash, publicKey, userId
+export function signBytes(msg: Uint8Array, privateKey: PrivateKeyInput, options: SignOptions = {}) {
+  const {
+    pointPool, der, hash, publicKey, userId, deterministic, extraEntropy
   } = options
-  let hashHex = typeof msg === 'string' ? utf8ToHex(msg) : arrayToHex(Array.from(msg))
+  const dA = toPrivateKeyScalar(privateKey)
+  let hashBytes = msg
   if (hash) {
-    // sm3杂凑
-    publicKey = publicKey || getPublicKeyFromPrivateKey(privateKey)
-    hashHex = getHash(hashHex, publicKey, userId)
+    // sm3杂凑，SM2PrivateKey 使用缓存的公钥和 Z 值
+    const signer = publicKey || (privateKey instanceof SM2PrivateKey ? privateKey.publicKey : sm2Curve.ProjectivePoint.BASE.multiply(dA))
+    hashBytes = sm3(utils.concatBytes(getZ(signer, userId), msg))
   }
-
-  const dA = utils.hexToNumber(privateKey)
-  const e = utils.hexToNumber(hashHex)
+  const e = utils.bytesToNumberBE(hashBytes)
 
   // k
   let k: bigint | null = null
   let r: bigint | null = null
   let s: bigint | null = null
 
-  do {
+  if (deterministic || extraEntropy) {
+    ({ r, s } = deterministicSign(dA, e, extraEntropy))
+  } else {
     do {
-      let point: SignaturePoint
-      if (pointPool && pointPool.length) {
-        point = pointPool.pop()!
-      } else {
-        point = getPoint()
-      }
-      k = point.k
-
-      // r = (e + x1) mod n
-      r = field.add(e, point.x1)
-    } while (r === ZERO || (r + k) === sm2Curve.CURVE.n)
+      do {
+        let point: SignaturePoint
+        if (pointPool && pointPool.length) {
+          point = pointPool.pop()!
+        } else {
+          point = getPoint()
+        }
+        k = point.k
+
+        // r = (e + x1) mod n
+        r = field.add(e, point.x1)
+      } while (r === ZERO || (r + k) === sm2Curve.CURVE.n)
+
+      // s = ((1 + dA)^-1 * (k - r * dA)) mod n
+      s = field.mul(field.inv(field.addN(dA, ONE)), field.subN(k, field.mulN(r, dA)))
+    } while (s === ZERO)
+  }
+  if (der) return encodeDerBytes(r, s) // asn.1 der 编码
+  return utils.concatBytes(utils.numberToBytesBE(r, 32), utils.numberToBytesBE(s, 32))
+}
 
-    // s = ((1 + dA)^-1 * (k - r * dA)) mod n
-    s = field.mul(field.inv(field.addN(dA, ONE)), field.subN(k, field.mulN(r, dA)))
-  } while (s === ZERO)
-  if (der) return encodeDer(r, s) // asn.1 der 编码
-  return leftPad(utils.numberToHexUnpadded(r), 64) + leftPad(utils.numberToHexUnpadded(s), 64)
+/**
+ * 签名
+ */
+export function doSignature(msg: Uint8Array | string, privateKey: string | SM2PrivateKey, options: {
+  pointPool?: SignaturePoint[], der?: boolean, hash?: boolean, publicKey?: string | ProjPointType<bigint> | SM2PublicKey, userId?: string,
+  deterministic?: boolean, // 使用 HMAC-SM3 从私钥和消息杂凑派生随机数 k（RFC 6979），不依赖随机数发生器
+  extraEntropy?: boolean | Uint8Array | string, // 派生 k 时额外混入的 32 字节随机数，为 true 时自动生成
+} = {}) {
+  const { publicKey, ...rest } = options
+  return bytesToHex(signBytes(toMsgBytes(msg), privateKeyToBytes(privateKey), {
+    ...rest,
+    publicKey: publicKey ? publicKeyToBytes(publicKey) : undefined,
+  }))
 }
 
 /**
- * 验签
+ * 按 RFC 6979 用 HMAC-DRBG（HMAC-SM3）派生 k 并签名
  */
-export function doVerifySignature(msg: string | Uint8Array, signHex: string, publicKey: string | ProjPointType<bigint>, options: { der?: boolean, hash?: boolean, userId?: string } = {}) {
-  let hashHex: string
-  const {
-    hash,
-    der,
-    userId,
-  } = options
-  const publicKeyHex = typeof publicKey === 'string' ? publicKey : publicKey.toHex(false)
-  if (hash) {
-    // sm3杂凑
-    hashHex = getHash(typeof msg === 'string' ? utf8ToHex(msg) : msg, publicKeyHex, userId)
-  } else {
-    hashHex = typeof msg === 'string' ? utf8ToHex(msg) : arrayToHex(Array.from(msg))
+function deterministicSign(dA: bigint, e: bigint, extraEntropy?: boolean | Uint8Array | string) {
+  const { n, hmac } = sm2Curve.CURVE
+  // seed = int2octets(dA) || bits2octets(e) [|| 额外随机数]
+  const seed = [utils.numberToBytesBE(dA, 32), utils.numberToBytesBE(e % n, 32)]
+  if (extraEntropy) {
+    const entropy = extraEntropy === true ? randomBytes(32) : typeof extraEntropy === 'string' ? hexToArray(extraEntropy) : extraEntropy
+    if (entropy.length !== 32) throw new Error('extraEntropy should be 32 bytes')
+    seed.push(entropy)
   }
+  const drbg = utils.createHmacDrbg<{ r: bigint, s: bigint }>(32, 32, hmac)
+  return drbg(utils.concatBytes(...seed), (bytes) => {
+    const k = utils.bytesToNumberBE(bytes)
+    // k 不在 [1, n-1] 时重新生成
+    if (k <= ZERO || k >= n) return
+    // r = (e + x1) mod n
+    const r = field.add(e, sm2Curve.ProjectivePoint.BASE.multiply(k).toAffine().x)
+    if (r === ZERO || r + k === n) return
+    // s = ((1 + dA)^-1 * (k - r * dA)) mod n
+    const s = field.mul(field.inv(field.addN(dA, ONE)), field.subN(k, field.mulN(r, dA)))
+    if (s === ZERO) return
+    return { r, s }
+  })
+}
 
-  let r: bigint;
-  let s: bigint;
+/**
+ * 验签，输入均为字节，der 为 false 时签名为 64 字节的 r || s
+ */
+export function verifyBytes(msg: Uint8Array, signature: Uint8Array, publicKey: PublicKeyInput, options: VerifyOptions = {}) {
+  const { hash, der, userId } = options
+  const PA = toPublicKeyPoint(publicKey)
+  // sm3杂凑
+  const e = utils.bytesToNumberBE(hash ? sm3(utils.concatBytes(getZ(publicKey instanceof SM2PublicKey ? publicKey : PA, userId), msg)) : msg)
+
+  let r: bigint
+  let s: bigint
   if (der) {
-    const decodeDerObj = decodeDer(signHex) // asn.1 der 解码
-    r = decodeDerObj.r
-    s = decodeDerObj.s
+    // asn.1 der 解码，格式错误的签名视为验签失败
+    try {
+      ({ r, s } = decodeDerBytes(signature))
+    } catch (error) {
+      return false
+    }
   } else {
-    r = utils.hexToNumber(signHex.substring(0, 64))
-    s = utils.hexToNumber(signHex.substring(64))
+    if (signature.length !== 64) return false
+    r = utils.bytesToNumberBE(signature.subarray(0, 32))
+    s = utils.bytesToNumberBE(signature.subarray(32))
   }
-  
-  const PA = typeof publicKey === 'string' ? sm2Curve.ProjectivePoint.fromHex(publicKey) : publicKey
-  const e = utils.hexToNumber(hashHex)
-  
+  const { n } = sm2Curve.CURVE
+  if (r <= ZERO || r >= n || s <= ZERO || s >= n) return false
+
   // t = (r + s) mod n
   const t = field.add(r, s)
 
@@ -218,49 +389,137 @@ export function doVerifySignature(msg: string | Uint8Array, signHex: string, pub
   const x1y1 = sm2Curve.ProjectivePoint.BASE.multiply(s).add(PA.multiply(t))
 
   // R = (e + x1) mod n
-  // const R = e.add(x1y1.getX().toBigInteger()).mod(n)
-  const R = field.add(e, x1y1.x)
+  const R = field.add(e, x1y1.toAffine().x)
 
-  // return r.equals(R)
   return r === R
 }
 
-export function getZ(publicKey: string, userId = '1234567812345678') {
-  // z = hash(entl || userId || a || b || gx || gy || px || py)
-  userId = utf8ToHex(userId)
-  const a = leftPad(utils.numberToHexUnpadded(sm2Curve.CURVE.a), 64)
-  // const b = leftPad(G.curve.b.toBigInteger().toRadix(16), 64)
-  const b = leftPad(utils.numberToHexUnpadded(sm2Curve.CURVE.b), 64)
-  // const gx = leftPad(G.getX().toBigInteger().toRadix(16), 64)
-  const gx = leftPad(utils.numberToHexUnpadded(sm2Curve.ProjectivePoint.BASE.x), 64)
-  // const gy = leftPad(G.getY().toBigInteger().toRadix(16), 64)
-  const gy = leftPad(utils.numberToHexUnpadded(sm2Curve.ProjectivePoint.BASE.y), 64)
-  let px: string
-  let py: string
-  if (publicKey.length === 128) {
-    px = publicKey.substring(0, 64)
-    py = publicKey.substring(64, 128)
-  } else {
-    // const point = G.curve.decodePointHex(publicKey)!
-    const point = sm2Curve.ProjectivePoint.fromHex(publicKey)!
-    // px = leftPad(point.getX().toBigInteger().toRadix(16), 64)
-    px = leftPad(utils.numberToHexUnpadded(point.x), 64)
-    // py = leftPad(point.getY().toBigInteger().toRadix(16), 64)
-    py = leftPad(utils.numberToHexUnpadded(point.y), 64)
+/**
+ * 验签
+ */
+export function doVerifySignature(msg: string | Uint8Array, signHex: string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: { der?: boolean, hash?: boolean, userId?: string } = {}) {
+  return verifyBytes(toMsgBytes(msg), hexToArray(signHex), publicKeyToBytes(publicKey), options)
+}
+
+export interface SignatureDigest {
+  /** 追加消息，字符串按 utf8 处理 */
+  update(data: string | Uint8Array): SignatureDigest
+  /** 返回 e = SM3(Z || M) 的 16 进制串，只能调用一次 */
+  digest(): string
+}
+
+/**
+ * 增量计算 e = SM3(Z || M)，可用于分块签名或验签大文件
+ */
+export function createDigest(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: { userId?: string } = {}): SignatureDigest {
+  const hash = sm3.create().update(getZ(publicKey, options.userId))
+  const digester: SignatureDigest = {
+    update(data) {
+      hash.update(data)
+      return digester
+    },
+    digest() {
+      return bytesToHex(hash.digest())
+    },
   }
-  const data = hexToArray(userId + a + b + gx + gy + px + py)
+  return digester
+}
 
-  const entl = userId.length * 4
+function digestToHex(digest: string | Uint8Array) {
+  const digestHex = typeof digest === 'string' ? digest : arrayToHex(Array.from(digest))
+  if (!/^[0-9a-fA-F]{64}$/.test(digestHex)) throw new Error('digest should be 32 bytes')
+  return digestHex
+}
 
-  const z = sm3(utils.concatBytes(new Uint8Array([entl >> 8 & 0x00ff, entl & 0x00ff]), data))
+/**
+ * 对杂凑值 e 签名，e 通常为 SM3(Z || M)，可以由 createDigest 计算
+ */
+export function signDigest(digest: string | Uint8Array, privateKey: string | SM2PrivateKey, options: {
+  pointPool?: SignaturePoint[], der?: boolean, deterministic?: boolean, extraEntropy?: boolean | Uint8Array | string,
+} = {}) {
+  return doSignature(hexToArray(digestToHex(digest)), privateKey, { ...options, hash: false })
+}
+
+/**
+ * 对杂凑值 e 验签
+ */
+export function verifyDigest(digest: string | Uint8Array, signHex: string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: { der?: boolean } = {}) {
+  return doVerifySignature(hexToArray(digestToHex(digest)), signHex, publicKey, { der: options.der, hash: false })
+}
+
+export interface Signer {
+  /** 追加消息，字符串按 utf8 处理 */
+  update(data: string | Uint8Array): Signer
+  /** 生成签名，只能调用一次 */
+  sign(options?: { der?: boolean }): string
+}
 
-  return z
+export interface Verifier {
+  /** 追加消息，字符串按 utf8 处理 */
+  update(data: string | Uint8Array): Verifier
+  /** 验签，只能调用一次 */
+  verify(signHex: string, options?: { der?: boolean }): boolean
+}
+
+/**
+ * 分块签名，结果与 hash 为 true 时的 doSignature 相同
+ */
+export function createSigner(privateKey: string | SM2PrivateKey, options: {
+  userId?: string, publicKey?: string | SM2PublicKey, deterministic?: boolean, extraEntropy?: boolean | Uint8Array | string,
+} = {}): Signer {
+  const { userId, deterministic, extraEntropy } = options
+  const publicKey = options.publicKey || (privateKey instanceof SM2PrivateKey ? privateKey.publicKey : getPublicKeyFromPrivateKey(privateKey))
+  const digest = createDigest(publicKey, { userId })
+  const signer: Signer = {
+    update(data) {
+      digest.update(data)
+      return signer
+    },
+    sign({ der } = {}) {
+      return signDigest(digest.digest(), privateKey, { der, deterministic, extraEntropy })
+    },
+  }
+  return signer
+}
+
+/**
+ * 分块验签，结果与 hash 为 true 时的 doVerifySignature 相同
+ */
+export function createVerifier(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: { userId?: string } = {}): Verifier {
+  const digest = createDigest(publicKey, options)
+  const verifier: Verifier = {
+    update(data) {
+      digest.update(data)
+      return verifier
+    },
+    verify(signHex, { der } = {}) {
+      return verifyDigest(digest.digest(), signHex, publicKey, { der })
+    },
+  }
+  return verifier
+}
+
+// a || b || gx || gy
+const CURVE_PARAMS = utils.concatBytes(
+  utils.numberToBytesBE(sm2Curve.CURVE.a, 32),
+  utils.numberToBytesBE(sm2Curve.CURVE.b, 32),
+  utils.numberToBytesBE(sm2Curve.CURVE.Gx, 32),
+  utils.numberToBytesBE(sm2Curve.CURVE.Gy, 32),
+)
+
+export function getZ(publicKey: string | PublicKeyInput, userId = '1234567812345678'): Uint8Array {
+  if (publicKey instanceof SM2PublicKey) return publicKey.getZ(userId)
+  // z = hash(entl || userId || a || b || gx || gy || px || py)
+  const id = utf8ToArray(userId)
+  const entl = id.length * 8
+  const point = toPublicKeyPoint(publicKey)
+  return sm3(utils.concatBytes(new Uint8Array([entl >> 8 & 0x00ff, entl & 0x00ff]), id, CURVE_PARAMS, point.toRawBytes(false).subarray(1)))
 }
 
 /**
  * sm3杂凑算法
  */
-export function getHash(hashHex: string | Uint8Array, publicKey: string, userId = '1234567812345678') {
+export function getHash(hashHex: string | Uint8Array, publicKey: string | ProjPointType<bigint> | SM2PublicKey, userId = '1234567812345678') {
   const z = getZ(publicKey, userId)
   // e = hash(z || msg)
   return bytesToHex(sm3(utils.concatBytes(z, typeof hashHex === 'string' ? hexToArray(hashHex) : hashHex)))
@@ -273,15 +532,16 @@ export function getHash(hashHex: string | Uint8Array, publicKey: string, userId
  * @param windowSize 计算窗口大小，默认为 8
  * @returns {ProjPointType<bigint>} 预计算的点
  */
-export function precomputePublicKey(publicKey: string, windowSize?: number) {
-  const point = sm2Curve.ProjectivePoint.fromHex(publicKey)
+export function precomputePublicKey(publicKey: string | SM2PublicKey, windowSize?: number) {
+  const point = publicKey instanceof SM2PublicKey ? publicKey.point : sm2Curve.ProjectivePoint.fromHex(publicKey)
   return sm2Curve.utils.precompute(windowSize, point)
 }
 
 /**
  * 计算公钥
  */
-export function getPublicKeyFromPrivateKey(privateKey: string) {
+export function getPublicKeyFromPrivateKey(privateKey: string | SM2PrivateKey) {
+  if (privateKey instanceof SM2PrivateKey) return privateKey.publicKey.toHex()
   const pubKey = sm2Curve.getPublicKey(privateKey, false)
   const pubPad = leftPad(utils.bytesToHex(pubKey), 64)
   return pubPad
@@ -0,0 +1,194 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { utf8ToArray } from '@/sm3';
+import * as sm4 from '@/sm4';
+import { SM2JsonWebKey, exportPublicKeyJwk, importPublicKeyJwk } from './jwk';
+import { SM2PrivateKey, SM2PublicKey, toPrivateKeyHex, toPublicKeyHex } from './keyobject';
+import { base64urlToBytes, bytesToBase64url } from './pem';
+import { randomBytes } from './rng';
+import { sm3 } from './sm3';
+import { arrayToUtf8, generateKeyPairHex, hexToArray } from './utils';
+import { ecdh } from '.';
+
+export type JweHeader = Record<string, unknown> & {
+  alg?: string
+  enc?: string
+  kid?: string
+  epk?: SM2JsonWebKey
+  apu?: string
+  apv?: string
+  crit?: string[]
+}
+
+/** ECDH-ES 使用接收者公钥，dir 使用共享的 SM4 密钥 */
+export type JweEncryptKey = { publicKey: string | ProjPointType<bigint> | SM2PublicKey } | { key: string | Uint8Array }
+export type JweDecryptKey = { privateKey: string | SM2PrivateKey } | { key: string | Uint8Array }
+
+export interface JweEncryptOptions {
+  /** 额外的保护头部成员，如 kid，不能覆盖 alg、enc、epk、apu、apv */
+  header?: JweHeader
+  /** ECDH-ES 中的 PartyUInfo */
+  apu?: string | Uint8Array
+  /** ECDH-ES 中的 PartyVInfo */
+  apv?: string | Uint8Array
+}
+
+export interface JweDecryptOptions {
+  /** 接受的 alg，默认为 ['ECDH-ES', 'dir'] */
+  algorithms?: string[]
+}
+
+export interface JweDecryptResult {
+  protectedHeader: JweHeader
+  plaintext: Uint8Array
+}
+
+const ENC = 'SM4GCM'
+const KEY_LENGTH = 16
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+function toBytes(input: string | Uint8Array) {
+  return typeof input === 'string' ? utf8ToArray(input) : input
+}
+
+function toKey(key: string | Uint8Array) {
+  const bytes = typeof key === 'string' ? hexToArray(key) : key
+  if (bytes.length !== KEY_LENGTH) throw new Error('invalid key: SM4GCM requires a 128-bit key')
+  return bytes
+}
+
+function lengthPrefixed(data: Uint8Array) {
+  const out = new Uint8Array(4 + data.length)
+  new DataView(out.buffer).setUint32(0, data.length, false)
+  out.set(data, 4)
+  return out
+}
+
+/**
+ * RFC 7518 4.6.2 中的 Concat KDF，使用 SM3
+ * @param z 共享秘密
+ * @param keyLength 输出长度（字节）
+ */
+export function concatKdf(z: Uint8Array, keyLength: number, algorithmId: string, apu: Uint8Array = new Uint8Array(), apv: Uint8Array = new Uint8Array()) {
+  const suppPubInfo = new Uint8Array(4)
+  new DataView(suppPubInfo.buffer).setUint32(0, keyLength * 8, false)
+  const otherInfo = utils.concatBytes(lengthPrefixed(utf8ToArray(algorithmId)), lengthPrefixed(apu), lengthPrefixed(apv), suppPubInfo)
+  const out = new Uint8Array(Math.ceil(keyLength / 32) * 32)
+  const counter = new Uint8Array(4)
+  for (let i = 0; i * 32 < keyLength; i++) {
+    new DataView(counter.buffer).setUint32(0, i + 1, false)
+    out.set(sm3(utils.concatBytes(counter, z, otherInfo)), i * 32)
+  }
+  return out.subarray(0, keyLength)
+}
+
+/**
+ * ECDH 共享点的 x 坐标
+ */
+function sharedSecret(privateKey: string | SM2PrivateKey, publicKey: string | ProjPointType<bigint> | SM2PublicKey) {
+  return ecdh(toPrivateKeyHex(privateKey), toPublicKeyHex(publicKey), true).subarray(1)
+}
+
+function decodePart(part: string, what: string) {
+  try {
+    return base64urlToBytes(part)
+  } catch (error) {
+    throw new Error(`invalid JWE: ${what} is not base64url`)
+  }
+}
+
+/**
+ * 合并调用方的保护头部，alg、enc、epk、apu、apv 由加密过程决定，header 中的值与之不一致时抛出异常
+ */
+function mergeHeader(header: JweHeader = {}, computed: JweHeader) {
+  for (const name of ['alg', 'enc', 'epk', 'apu', 'apv']) {
+    if (header[name] !== undefined && header[name] !== computed[name]) {
+      throw new Error(`header.${name} conflicts with the JWE key management or content encryption`)
+    }
+  }
+  const { alg, enc, ...rest } = computed
+  return { alg, enc, ...header, ...rest }
+}
+
+/**
+ * 生成 JWE 紧凑序列化，内容使用 SM4GCM 加密
+ */
+export function encryptJwe(plaintext: string | Uint8Array, key: JweEncryptKey, options: JweEncryptOptions = {}) {
+  let header: JweHeader
+  let cek: Uint8Array
+  if ('publicKey' in key) {
+    // ECDH-ES：临时密钥对与接收者公钥协商，直接派生内容加密密钥
+    const ephemeral = generateKeyPairHex()
+    const apu = options.apu !== undefined ? toBytes(options.apu) : undefined
+    const apv = options.apv !== undefined ? toBytes(options.apv) : undefined
+    const computed: JweHeader = { alg: 'ECDH-ES', enc: ENC, epk: exportPublicKeyJwk(ephemeral.publicKey) }
+    if (apu) computed.apu = bytesToBase64url(apu)
+    if (apv) computed.apv = bytesToBase64url(apv)
+    header = mergeHeader(options.header, computed)
+    cek = concatKdf(sharedSecret(ephemeral.privateKey, key.publicKey), KEY_LENGTH, ENC, apu, apv)
+  } else {
+    header = mergeHeader(options.header, { alg: 'dir', enc: ENC })
+    cek = toKey(key.key)
+  }
+
+  const protectedPart = bytesToBase64url(utf8ToArray(JSON.stringify(header)))
+  const iv = randomBytes(IV_LENGTH)
+  // AAD 为保护头部的 base64url 编码
+  const { output, tag } = sm4.encrypt(toBytes(plaintext), cek, {
+    mode: 'gcm', iv, associatedData: utf8ToArray(protectedPart), output: 'array', outputTag: true,
+  })
+  return [protectedPart, '', bytesToBase64url(iv), bytesToBase64url(output), bytesToBase64url(tag!)].join('.')
+}
+
+/**
+ * 解密 JWE 紧凑序列化，失败时抛出异常
+ */
+export function decryptJwe(jwe: string, key: JweDecryptKey, options: JweDecryptOptions = {}): JweDecryptResult {
+  const { algorithms = ['ECDH-ES', 'dir'] } = options
+  const parts = typeof jwe === 'string' ? jwe.split('.') : []
+  if (parts.length !== 5) throw new Error('invalid JWE: expected five parts')
+  const [protectedPart, encryptedKeyPart, ivPart, ciphertextPart, tagPart] = parts
+
+  let header: JweHeader
+  try {
+    header = JSON.parse(arrayToUtf8(base64urlToBytes(protectedPart)))
+  } catch (error) {
+    throw new Error('invalid JWE: protected header is not base64url encoded JSON')
+  }
+  if (!header || typeof header !== 'object' || Array.isArray(header)) throw new Error('invalid JWE: protected header is not a JSON object')
+  if (typeof header.alg !== 'string' || algorithms.indexOf(header.alg) === -1) throw new Error(`unsupported JWE algorithm: ${header.alg}`)
+  if (header.enc !== ENC) throw new Error(`unsupported JWE encryption: ${header.enc}`)
+  if (header.crit !== undefined) throw new Error('unsupported JWE critical header parameters')
+  if (header.zip !== undefined) throw new Error('unsupported JWE compression')
+  // 两种模式都不使用加密密钥
+  if (encryptedKeyPart !== '') throw new Error('invalid JWE: encrypted key should be empty')
+
+  let cek: Uint8Array
+  if (header.alg === 'ECDH-ES') {
+    if (!('privateKey' in key)) throw new Error('JWE algorithm ECDH-ES requires a private key')
+    if (!header.epk) throw new Error('invalid JWE: missing epk')
+    const epk = importPublicKeyJwk(header.epk)
+    const apu = header.apu !== undefined ? decodePart(header.apu, 'apu') : undefined
+    const apv = header.apv !== undefined ? decodePart(header.apv, 'apv') : undefined
+    cek = concatKdf(sharedSecret(key.privateKey, epk), KEY_LENGTH, ENC, apu, apv)
+  } else if (header.alg === 'dir') {
+    if (!('key' in key)) throw new Error('JWE algorithm dir requires a shared key')
+    cek = toKey(key.key)
+  } else {
+    throw new Error(`unsupported JWE algorithm: ${header.alg}`)
+  }
+
+  const iv = decodePart(ivPart, 'iv')
+  const tag = decodePart(tagPart, 'tag')
+  if (iv.length !== IV_LENGTH) throw new Error('invalid JWE: iv should be 12 bytes')
+  if (tag.length !== TAG_LENGTH) throw new Error('invalid JWE: tag should be 16 bytes')
+  try {
+    const plaintext = sm4.decrypt(decodePart(ciphertextPart, 'ciphertext'), cek, {
+      mode: 'gcm', iv, tag, associatedData: utf8ToArray(protectedPart), output: 'array',
+    })
+    return { protectedHeader: header, plaintext }
+  } catch (error) {
+    throw new Error('JWE decryption failed')
+  }
+}
@@ -0,0 +1,127 @@
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import * as utils from '@noble/curves/abstract/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@/sm3/utils';
+import { utf8ToArray } from '@/sm3';
+import { ZERO } from './bn';
+import { sm2Curve } from './ec';
+import { uncompressedPublicKey } from './keys';
+import { SM2PrivateKey, SM2PublicKey, toPrivateKeyHex, toPublicKeyHex } from './keyobject';
+import { base64urlToBytes, bytesToBase64url } from './pem';
+import { sm3 } from './sm3';
+import {
+  KeyPair, hexToArray, leftPad, verifyPublicKey,
+} from './utils';
+import { getPublicKeyFromPrivateKey } from '.';
+
+export interface SM2JsonWebKey {
+  kty: 'EC'
+  crv: 'SM2'
+  /** base64url 编码的 32 字节 x 坐标 */
+  x: string
+  /** base64url 编码的 32 字节 y 坐标 */
+  y: string
+  /** base64url 编码的 32 字节私钥 */
+  d?: string
+  kid?: string
+  use?: string
+  alg?: string
+  key_ops?: string[]
+  [member: string]: unknown
+}
+
+/** 导出时附加的 JWK 成员，如 kid、use、alg */
+export type JwkParameters = Omit<Partial<SM2JsonWebKey>, 'kty' | 'crv' | 'x' | 'y' | 'd'>
+
+function decodeMember(jwk: SM2JsonWebKey, name: 'x' | 'y' | 'd') {
+  const value = jwk[name]
+  if (typeof value !== 'string') throw new Error(`invalid JWK: missing ${name}`)
+  let bytes: Uint8Array
+  try {
+    bytes = base64urlToBytes(value)
+  } catch (error) {
+    throw new Error(`invalid JWK: ${name} is not base64url`)
+  }
+  // RFC 7518 要求坐标和私钥为完整长度
+  if (bytes.length !== 32) throw new Error(`invalid JWK: ${name} should be 32 bytes`)
+  return bytesToHex(bytes)
+}
+
+/**
+ * 公钥转 JWK，公钥可以为 16 进制串（压缩或非压缩）、椭圆曲线点或 SM2PublicKey
+ */
+export function exportPublicKeyJwk(publicKey: string | ProjPointType<bigint> | SM2PublicKey, parameters: JwkParameters = {}): SM2JsonWebKey {
+  const hex = toPublicKeyHex(publicKey)
+  if (!isValidPublicKey(hex)) throw new Error('invalid public key: not a point on SM2 curve')
+  const uncompressed = uncompressedPublicKey(hex)
+  return {
+    kty: 'EC',
+    crv: 'SM2',
+    x: bytesToBase64url(hexToArray(uncompressed.substring(2, 66))),
+    y: bytesToBase64url(hexToArray(uncompressed.substring(66))),
+    ...parameters,
+  }
+}
+
+/**
+ * 私钥转 JWK，不传公钥时由私钥推导
+ */
+export function exportPrivateKeyJwk(
+  privateKey: string | SM2PrivateKey,
+  parameters: JwkParameters & { publicKey?: string | ProjPointType<bigint> | SM2PublicKey } = {},
+): SM2JsonWebKey {
+  const { publicKey, ...rest } = parameters
+  const privateKeyHex = leftPad(toPrivateKeyHex(privateKey), 64)
+  const d = utils.hexToNumber(privateKeyHex)
+  if (d <= ZERO || d >= sm2Curve.CURVE.n) throw new Error('invalid private key')
+  return {
+    ...exportPublicKeyJwk(publicKey || getPublicKeyFromPrivateKey(privateKey instanceof SM2PrivateKey ? privateKey : privateKeyHex)),
+    d: bytesToBase64url(utils.numberToBytesBE(d, 32)),
+    ...rest,
+  }
+}
+
+/**
+ * JWK 转非压缩公钥，会校验公钥是否在曲线上
+ */
+export function importPublicKeyJwk(jwk: SM2JsonWebKey) {
+  if (!jwk || typeof jwk !== 'object') throw new Error('invalid JWK: not an object')
+  if (jwk.kty !== 'EC') throw new Error('invalid JWK: kty should be EC')
+  if (jwk.crv !== 'SM2') throw new Error('invalid JWK: crv should be SM2')
+  const publicKey = '04' + decodeMember(jwk, 'x') + decodeMember(jwk, 'y')
+  if (!isValidPublicKey(publicKey)) throw new Error('invalid JWK: not a point on SM2 curve')
+  return publicKey
+}
+
+/**
+ * JWK 转密钥对，会校验私钥与公钥是否匹配
+ */
+export function importPrivateKeyJwk(jwk: SM2JsonWebKey): KeyPair {
+  const publicKey = importPublicKeyJwk(jwk)
+  const privateKey = decodeMember(jwk, 'd')
+  const d = utils.hexToNumber(privateKey)
+  if (d <= ZERO || d >= sm2Curve.CURVE.n) throw new Error('invalid JWK: d out of range')
+  if (getPublicKeyFromPrivateKey(privateKey) !== publicKey) throw new Error('invalid JWK: d does not match x and y')
+  return { privateKey, publicKey }
+}
+
+/**
+ * 计算 RFC 7638 JWK 指纹，返回 base64url 串
+ * @param hash 摘要算法，默认为 sha256
+ */
+export function jwkThumbprint(jwk: SM2JsonWebKey, hash: 'sha256' | 'sm3' = 'sha256') {
+  importPublicKeyJwk(jwk)
+  // 必需成员按字典序排列，不含空白
+  const json = `{"crv":"${jwk.crv}","kty":"${jwk.kty}","x":"${jwk.x}","y":"${jwk.y}"}`
+  const digest = hash === 'sm3' ? sm3(utf8ToArray(json)) : sha256(utf8ToArray(json))
+  return bytesToBase64url(digest)
+}
+
+function isValidPublicKey(publicKey: string) {
+  try {
+    return verifyPublicKey(publicKey)
+  } catch (error) {
+    return false
+  }
+}
+
@@ -0,0 +1,256 @@
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { bytesToHex } from '@/sm3/utils';
+import { utf8ToArray } from '@/sm3';
+import { base64urlToBytes, bytesToBase64url } from './pem';
+import { arrayToUtf8, hexToArray } from './utils';
+import { SM2PrivateKey, SM2PublicKey } from './keyobject';
+import { doSignature, doVerifySignature } from '.';
+
+export type JwsHeader = Record<string, unknown> & { alg?: string, kid?: string, typ?: string, crit?: string[] }
+
+export interface JwsSignOptions {
+  /** 头部中的 alg，默认为 SM2SM3 */
+  alg?: string
+  /** 额外的保护头部成员，如 kid */
+  header?: JwsHeader
+  /** 是否对签名原文做 SM3 杂凑（计算 Z 值），默认为 true */
+  hash?: boolean
+  /** 计算 Z 值时的 userId，默认为 1234567812345678 */
+  userId?: string
+  /** 签名者公钥，传入可以省去推导公钥的计算 */
+  publicKey?: string | ProjPointType<bigint> | SM2PublicKey
+}
+
+export interface JwsVerifyOptions {
+  /** 接受的 alg，默认为 ['SM2SM3'] */
+  algorithms?: string[]
+  /** 是否对签名原文做 SM3 杂凑（计算 Z 值），需与签名时一致，默认为 true */
+  hash?: boolean
+  /** 计算 Z 值时的 userId，需与签名时一致，默认为 1234567812345678 */
+  userId?: string
+}
+
+export interface JwsVerifyResult {
+  protectedHeader: JwsHeader
+  /** JSON 序列化中未保护的头部 */
+  unprotectedHeader?: JwsHeader
+  payload: Uint8Array
+}
+
+export interface JwsJsonSignature {
+  protected: string
+  header?: JwsHeader
+  signature: string
+}
+
+/** JWS JSON 序列化（通用格式），只有一个签名时也可以为扁平格式 */
+export interface JwsJson {
+  payload: string
+  signatures?: JwsJsonSignature[]
+  protected?: string
+  header?: JwsHeader
+  signature?: string
+}
+
+export interface JwsJsonSigner extends JwsSignOptions {
+  privateKey: string | SM2PrivateKey
+  /** 未保护的头部 */
+  unprotectedHeader?: JwsHeader
+}
+
+export interface JwtClaims {
+  iss?: string
+  sub?: string
+  aud?: string | string[]
+  exp?: number
+  nbf?: number
+  iat?: number
+  jti?: string
+  [claim: string]: unknown
+}
+
+export interface JwtVerifyOptions extends JwsVerifyOptions {
+  /** 期望的 aud，token 的 aud 需包含其中之一 */
+  audience?: string | string[]
+  /** 期望的 iss */
+  issuer?: string
+  /** 校验时间，默认为当前时间 */
+  currentTime?: Date
+  /** 允许的时钟偏差，单位为秒，默认为 0 */
+  clockTolerance?: number
+}
+
+export interface JwtVerifyResult {
+  protectedHeader: JwsHeader
+  claims: JwtClaims
+}
+
+const DEFAULT_ALG = 'SM2SM3'
+
+function encodeJson(value: unknown) {
+  return bytesToBase64url(utf8ToArray(JSON.stringify(value)))
+}
+
+function decodeJson(part: string, what: string) {
+  let value: unknown
+  try {
+    value = JSON.parse(arrayToUtf8(base64urlToBytes(part)))
+  } catch (error) {
+    throw new Error(`invalid JWS: ${what} is not base64url encoded JSON`)
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`invalid JWS: ${what} is not a JSON object`)
+  return value as JwsHeader
+}
+
+function toBytes(payload: string | Uint8Array) {
+  return typeof payload === 'string' ? utf8ToArray(payload) : payload
+}
+
+/**
+ * 编码保护头部，alg 由 options.alg 决定，header 中的 alg 与之不一致时抛出异常
+ */
+function encodeProtectedHeader(options: JwsSignOptions) {
+  const alg = options.alg || DEFAULT_ALG
+  if (options.header && options.header.alg !== undefined && options.header.alg !== alg) {
+    throw new Error(`header.alg ${options.header.alg} conflicts with the signing algorithm ${alg}`)
+  }
+  return encodeJson({ alg, ...options.header })
+}
+
+function sign(protectedPart: string, payloadPart: string, privateKey: string | SM2PrivateKey, options: JwsSignOptions) {
+  const { hash = true, userId, publicKey } = options
+  const signature = doSignature(utf8ToArray(`${protectedPart}.${payloadPart}`), privateKey, { hash, userId, publicKey })
+  // 签名值为 64 字节的 r || s
+  return bytesToBase64url(hexToArray(signature))
+}
+
+function verify(protectedPart: string, payloadPart: string, signaturePart: string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: JwsVerifyOptions) {
+  const { algorithms = [DEFAULT_ALG], hash = true, userId } = options
+  const header = decodeJson(protectedPart, 'protected header')
+  if (typeof header.alg !== 'string' || algorithms.indexOf(header.alg) === -1) throw new Error(`unsupported JWS algorithm: ${header.alg}`)
+  // 不支持任何扩展头部，含 crit 的 JWS 必须拒绝
+  if (header.crit !== undefined) throw new Error('unsupported JWS critical header parameters')
+  let signature: Uint8Array
+  try {
+    signature = base64urlToBytes(signaturePart)
+  } catch (error) {
+    throw new Error('invalid JWS: signature is not base64url')
+  }
+  if (signature.length !== 64) throw new Error('invalid JWS: signature should be 64 bytes')
+  let valid = false
+  try {
+    valid = doVerifySignature(utf8ToArray(`${protectedPart}.${payloadPart}`), bytesToHex(signature), publicKey, { hash, userId })
+  } catch (error) {
+    valid = false
+  }
+  if (!valid) throw new Error('JWS signature verification failed')
+  return header
+}
+
+function decodePayload(payloadPart: string) {
+  try {
+    return base64urlToBytes(payloadPart)
+  } catch (error) {
+    throw new Error('invalid JWS: payload is not base64url')
+  }
+}
+
+/**
+ * 生成 JWS 紧凑序列化
+ */
+export function signJws(payload: string | Uint8Array, privateKey: string | SM2PrivateKey, options: JwsSignOptions = {}) {
+  const protectedPart = encodeProtectedHeader(options)
+  const payloadPart = bytesToBase64url(toBytes(payload))
+  return `${protectedPart}.${payloadPart}.${sign(protectedPart, payloadPart, privateKey, options)}`
+}
+
+/**
+ * 验证 JWS 紧凑序列化，失败时抛出异常
+ */
+export function verifyJws(jws: string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: JwsVerifyOptions = {}): JwsVerifyResult {
+  const parts = typeof jws === 'string' ? jws.split('.') : []
+  if (parts.length !== 3) throw new Error('invalid JWS: expected three parts')
+  const [protectedPart, payloadPart, signaturePart] = parts
+  const protectedHeader = verify(protectedPart, payloadPart, signaturePart, publicKey, options)
+  return { protectedHeader, payload: decodePayload(payloadPart) }
+}
+
+/**
+ * 生成 JWS JSON 序列化（通用格式），每个签名者一个签名
+ */
+export function signJwsJson(payload: string | Uint8Array, signers: JwsJsonSigner[]): JwsJson {
+  if (!signers.length) throw new Error('at least one signer is required')
+  const payloadPart = bytesToBase64url(toBytes(payload))
+  return {
+    payload: payloadPart,
+    signatures: signers.map(signer => {
+      const protectedPart = encodeProtectedHeader(signer)
+      const signature: JwsJsonSignature = { protected: protectedPart, signature: sign(protectedPart, payloadPart, signer.privateKey, signer) }
+      if (signer.unprotectedHeader) signature.header = signer.unprotectedHeader
+      return signature
+    }),
+  }
+}
+
+/**
+ * 验证 JWS JSON 序列化（通用或扁平格式），返回第一个能用该公钥验证通过的签名，都不通过时抛出异常
+ */
+export function verifyJwsJson(jws: JwsJson | string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: JwsVerifyOptions = {}): JwsVerifyResult {
+  const json: JwsJson = typeof jws === 'string' ? JSON.parse(jws) : jws
+  if (!json || typeof json.payload !== 'string') throw new Error('invalid JWS: missing payload')
+  const signatures = json.signatures || (json.signature !== undefined ? [{ protected: json.protected!, header: json.header, signature: json.signature }] : [])
+  if (!signatures.length) throw new Error('invalid JWS: missing signatures')
+  let lastError: Error | undefined
+  for (const item of signatures) {
+    if (typeof item.protected !== 'string') {
+      lastError = new Error('invalid JWS: missing protected header')
+      continue
+    }
+    try {
+      const protectedHeader = verify(item.protected, json.payload, item.signature, publicKey, options)
+      return { protectedHeader, unprotectedHeader: item.header, payload: decodePayload(json.payload) }
+    } catch (error) {
+      lastError = error as Error
+    }
+  }
+  throw lastError!
+}
+
+/**
+ * 生成 JWT，头部 typ 为 JWT
+ */
+export function signJwt(claims: JwtClaims, privateKey: string | SM2PrivateKey, options: JwsSignOptions = {}) {
+  return signJws(JSON.stringify(claims), privateKey, { ...options, header: { typ: 'JWT', ...options.header } })
+}
+
+/**
+ * 验证 JWT 的签名以及 exp、nbf、aud、iss，失败时抛出异常
+ */
+export function verifyJwt(token: string, publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: JwtVerifyOptions = {}): JwtVerifyResult {
+  const { protectedHeader, payload } = verifyJws(token, publicKey, options)
+  let claims: JwtClaims
+  try {
+    claims = JSON.parse(arrayToUtf8(payload))
+  } catch (error) {
+    throw new Error('invalid JWT: claims are not JSON')
+  }
+  if (!claims || typeof claims !== 'object' || Array.isArray(claims)) throw new Error('invalid JWT: claims are not a JSON object')
+
+  const now = Math.floor((options.currentTime || new Date()).getTime() / 1000)
+  const tolerance = options.clockTolerance || 0
+  if (claims.exp !== undefined) {
+    if (typeof claims.exp !== 'number') throw new Error('invalid JWT: exp should be a number')
+    if (now >= claims.exp + tolerance) throw new Error('JWT expired')
+  }
+  if (claims.nbf !== undefined) {
+    if (typeof claims.nbf !== 'number') throw new Error('invalid JWT: nbf should be a number')
+    if (now + tolerance < claims.nbf) throw new Error('JWT not active yet')
+  }
+  if (options.audience !== undefined) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience]
+    const actual = Array.isArray(claims.aud) ? claims.aud : claims.aud !== undefined ? [claims.aud] : []
+    if (!actual.some(aud => expected.indexOf(aud) !== -1)) throw new Error('JWT audience mismatch')
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) throw new Error('JWT issuer mismatch')
+  return { protectedHeader, claims }
+}
@@ -0,0 +1,194 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { ONE } from './bn';
+import { C1Format } from './cipher';
+import { sm2Curve } from './ec';
+import { KeyPair, hexToArray, leftPad } from './utils';
+import { SignaturePoint, doDecrypt, doEncrypt, doSignature, doVerifySignature, getZ } from '.';
+
+/** 公钥预计算默认的窗口大小，预计算表在首次点乘时生成 */
+const DEFAULT_WINDOW_SIZE = 4
+
+/**
+ * 已解析的 SM2 公钥，缓存各 userId 的 Z 值以及点乘的预计算表
+ */
+export class SM2PublicKey {
+  readonly point: ProjPointType<bigint>
+  private readonly zCache = new Map<string, Uint8Array>()
+
+  /**
+   * @param windowSize 预计算窗口大小，预计算表在首次点乘时生成，默认为 4，传入 8 与 precomputePublicKey 相同
+   */
+  constructor(point: ProjPointType<bigint>, windowSize = DEFAULT_WINDOW_SIZE) {
+    // 复制一份，避免修改调用方的点
+    this.point = sm2Curve.ProjectivePoint.fromAffine(point.toAffine())
+    try {
+      this.point.assertValidity()
+    } catch (error) {
+      throw new Error('invalid public key')
+    }
+    this.point._setWindowSize(windowSize)
+  }
+
+  /**
+   * 由 16 进制串导入，支持 04 开头的非压缩公钥、不带前缀的 x || y 以及压缩公钥
+   */
+  static fromHex(publicKey: string, windowSize?: number) {
+    return SM2PublicKey.fromBytes(hexToArray(publicKey), windowSize)
+  }
+
+  static fromBytes(publicKey: Uint8Array, windowSize?: number) {
+    let point: ProjPointType<bigint>
+    try {
+      point = toPublicKeyPoint(publicKey)
+    } catch (error) {
+      throw new Error('invalid public key')
+    }
+    return new SM2PublicKey(point, windowSize)
+  }
+
+  toHex(compressed = false) {
+    return this.point.toHex(compressed)
+  }
+
+  toBytes(compressed = false) {
+    return this.point.toRawBytes(compressed)
+  }
+
+  /**
+   * Z 值，按 userId 缓存
+   */
+  getZ(userId = '1234567812345678') {
+    let z = this.zCache.get(userId)
+    if (!z) {
+      z = getZ(this.point, userId)
+      this.zCache.set(userId, z)
+    }
+    return z
+  }
+
+  equals(other: SM2PublicKey) {
+    return this.point.equals(other.point)
+  }
+
+  /**
+   * 加密，同 doEncrypt
+   */
+  encrypt(msg: string | Uint8Array, options: { cipherMode?: number, asn1?: boolean, c1Format?: C1Format } = {}) {
+    const { cipherMode = 1, ...rest } = options
+    return doEncrypt(msg, this, cipherMode, rest)
+  }
+
+  /**
+   * 验签，同 doVerifySignature
+   */
+  verify(msg: string | Uint8Array, signHex: string, options: { der?: boolean, hash?: boolean, userId?: string } = {}) {
+    return doVerifySignature(msg, signHex, this, options)
+  }
+}
+
+/**
+ * 解析公钥，16 进制串和字节支持 04 开头的非压缩公钥、不带前缀的 x || y 以及压缩公钥
+ */
+export function toPublicKeyPoint(publicKey: string | Uint8Array | ProjPointType<bigint> | SM2PublicKey) {
+  if (publicKey instanceof SM2PublicKey) return publicKey.point
+  if (typeof publicKey === 'string') publicKey = hexToArray(publicKey)
+  if (!(publicKey instanceof Uint8Array)) return publicKey
+  return sm2Curve.ProjectivePoint.fromHex(publicKey.length === 64 ? utils.concatBytes(new Uint8Array([4]), publicKey) : publicKey)
+}
+
+/**
+ * 公钥统一转为 16 进制串，16 进制串原样返回，其余为 04 开头的非压缩公钥
+ */
+export function toPublicKeyHex(publicKey: string | Uint8Array | ProjPointType<bigint> | SM2PublicKey) {
+  return typeof publicKey === 'string' ? publicKey : toPublicKeyPoint(publicKey).toHex(false)
+}
+
+/**
+ * 解析私钥，16 进制串不做校验，与原有的 16 进制接口保持一致
+ */
+export function toPrivateKeyScalar(privateKey: string | Uint8Array | SM2PrivateKey) {
+  if (privateKey instanceof SM2PrivateKey) return privateKey.d
+  return typeof privateKey === 'string' ? utils.hexToNumber(privateKey) : utils.bytesToNumberBE(privateKey)
+}
+
+/**
+ * 私钥统一转为 16 进制串，16 进制串原样返回
+ */
+export function toPrivateKeyHex(privateKey: string | SM2PrivateKey) {
+  return typeof privateKey === 'string' ? privateKey : privateKey.toHex()
+}
+
+/**
+ * 密钥对统一转为 16 进制串，传入 SM2PrivateKey 时使用其公钥
+ */
+export function toKeyPairHex(keypair: KeyPair | SM2PrivateKey): KeyPair {
+  return keypair instanceof SM2PrivateKey ? { privateKey: keypair.toHex(), publicKey: keypair.publicKey.toHex() } : keypair
+}
+
+/**
+ * 已解析的 SM2 私钥，公钥在首次使用时计算并缓存
+ */
+export class SM2PrivateKey {
+  readonly d: bigint
+  private cachedPublicKey: SM2PublicKey | null = null
+
+  constructor(d: bigint) {
+    // d ∈ [1, n - 2]
+    if (typeof d !== 'bigint' || d < ONE || d >= sm2Curve.CURVE.n - ONE) throw new Error('invalid private key')
+    this.d = d
+  }
+
+  static fromHex(privateKey: string) {
+    if (typeof privateKey !== 'string' || !/^[0-9a-fA-F]{1,64}$/.test(privateKey)) throw new Error('invalid private key')
+    return new SM2PrivateKey(utils.hexToNumber(privateKey))
+  }
+
+  static fromBytes(privateKey: Uint8Array) {
+    if (!privateKey || privateKey.length !== 32) throw new Error('invalid private key')
+    return new SM2PrivateKey(utils.bytesToNumberBE(privateKey))
+  }
+
+  /**
+   * 随机生成私钥
+   */
+  static generate() {
+    return SM2PrivateKey.fromBytes(sm2Curve.utils.randomPrivateKey())
+  }
+
+  get publicKey() {
+    if (!this.cachedPublicKey) this.cachedPublicKey = new SM2PublicKey(sm2Curve.ProjectivePoint.BASE.multiply(this.d))
+    return this.cachedPublicKey
+  }
+
+  toHex() {
+    return leftPad(utils.numberToHexUnpadded(this.d), 64)
+  }
+
+  toBytes() {
+    return utils.numberToBytesBE(this.d, 32)
+  }
+
+  /**
+   * 签名，同 doSignature，计算 Z 值时使用缓存的公钥
+   */
+  sign(msg: string | Uint8Array, options: {
+    pointPool?: SignaturePoint[], der?: boolean, hash?: boolean, userId?: string,
+    deterministic?: boolean, extraEntropy?: boolean | Uint8Array | string,
+  } = {}) {
+    return doSignature(msg, this, { ...options, publicKey: this.publicKey })
+  }
+
+  /**
+   * 解密，同 doDecrypt
+   */
+  decrypt(encryptData: string, options: { output: 'array', cipherMode?: number, asn1?: boolean, strict?: boolean, c1Format?: C1Format }): Uint8Array
+  decrypt(encryptData: string, options?: { output?: 'string', cipherMode?: number, asn1?: boolean, strict?: boolean, c1Format?: C1Format }): string
+  decrypt(encryptData: string, options: { output?: 'string' | 'array', cipherMode?: number, asn1?: boolean, strict?: boolean, c1Format?: C1Format } = {}): Uint8Array | string {
+    const { cipherMode = 1, ...rest } = options
+    return rest.output === 'array'
+      ? doDecrypt(encryptData, this, cipherMode, { ...rest, output: 'array' })
+      : doDecrypt(encryptData, this, cipherMode, { ...rest, output: 'string' })
+  }
+}
+
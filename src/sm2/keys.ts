@@ -0,0 +1,304 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, CHash } from '@/sm3/utils';
+import { pbkdf2Hmac } from '@/sm3/pbkdf2';
+import { utf8ToArray } from '@/sm3';
+import * as sm4 from '@/sm4';
+import {
+  ASN1Node, DERBitString, DERInteger, DERNull, DERObjectIdentifier, DEROctetString, DERSequence, DERTaggedObject, decodeAsn1, hexToOid,
+} from './asn1'
+import { ONE, ZERO } from './bn';
+import { sm2Curve } from './ec';
+import {
+  OID_EC_PUBLIC_KEY, OID_HMAC_SHA256, OID_HMAC_SM3, OID_HMAC_SM3_OPENSSL, OID_PBES2, OID_PBKDF2, OID_SM2, OID_SM4_CBC,
+} from './oid';
+import { randomBytes } from './rng';
+import { sm3 } from './sm3';
+import { decodePem, encodePem, isPem } from './pem';
+import { KeyPair, hexToArray, leftPad } from './utils';
+import { SM2PrivateKey, SM2PublicKey, toPrivateKeyHex, toPublicKeyHex } from './keyobject';
+import { getPublicKeyFromPrivateKey } from '.';
+
+export type KeyFormat = 'pem' | 'der'
+
+export interface ExportKeyOptions {
+  /** 输出格式，pem 输出字符串，der 输出字节数组，默认为 pem */
+  format?: KeyFormat
+}
+
+export interface ExportPrivateKeyOptions extends ExportKeyOptions {
+  /** 公钥，不传则由私钥推导 */
+  publicKey?: string | ProjPointType<bigint> | SM2PublicKey
+}
+
+function output(der: string, label: string, format: KeyFormat = 'pem') {
+  const bytes = hexToArray(der)
+  return format === 'der' ? bytes : encodePem(bytes, label)
+}
+
+/**
+ * 将 PEM、der 字节数组或 der 16 进制串统一转为 der 16 进制串
+ */
+export function toDerHex(input: string | Uint8Array, labels?: string[]) {
+  if (isPem(input)) {
+    const { label, der } = decodePem(input as string)
+    if (labels && labels.indexOf(label) === -1) throw new Error(`unexpected PEM label: ${label}`)
+    return bytesToHex(der)
+  }
+  return typeof input === 'string' ? input.toLowerCase() : bytesToHex(input)
+}
+
+export function uncompressedPublicKey(publicKey: string) {
+  const point = sm2Curve.ProjectivePoint.fromHex(publicKey)
+  point.assertValidity()
+  return point.toHex(false)
+}
+
+function sm2Algorithm() {
+  return new DERSequence([new DERObjectIdentifier(OID_EC_PUBLIC_KEY), new DERObjectIdentifier(OID_SM2)])
+}
+
+/**
+ * 校验 AlgorithmIdentifier 是否为 SM2
+ */
+function assertSm2Algorithm(node: ASN1Node) {
+  const [algorithm, parameters] = node.children
+  if (!algorithm || algorithm.tag !== 0x06) throw new Error('invalid key algorithm')
+  const oid = hexToOid(algorithm.value)
+  if (oid === OID_SM2) return
+  if (oid === OID_EC_PUBLIC_KEY && parameters && parameters.tag === 0x06 && hexToOid(parameters.value) === OID_SM2) return
+  throw new Error('unsupported key algorithm, only SM2 keys are supported')
+}
+
+function encodeSec1(privateKey: string, publicKey: string, withParameters: boolean) {
+  const items = [
+    new DERInteger(ONE),
+    new DEROctetString(leftPad(privateKey, 64)),
+  ]
+  if (withParameters) items.push(new DERTaggedObject(0, new DERObjectIdentifier(OID_SM2)))
+  items.push(new DERTaggedObject(1, new DERBitString(uncompressedPublicKey(publicKey))))
+  return new DERSequence(items).getEncodedHex()
+}
+
+function decodeSec1(node: ASN1Node): KeyPair {
+  const [version, privateKeyNode, ...rest] = node.children
+  if (!version || version.tag !== 0x02 || utils.hexToNumber(version.value) !== ONE) throw new Error('invalid SEC1 private key')
+  if (!privateKeyNode || privateKeyNode.tag !== 0x04) throw new Error('invalid SEC1 private key')
+  const d = utils.hexToNumber(privateKeyNode.value || '00')
+  if (d <= ZERO || d >= sm2Curve.CURVE.n) throw new Error('invalid private key')
+  const privateKey = leftPad(utils.numberToHexUnpadded(d), 64)
+  const publicKey = getPublicKeyFromPrivateKey(privateKey)
+  for (const item of rest) {
+    if (item.tag === 0xa0) {
+      const params = item.children[0]
+      if (!params || params.tag !== 0x06 || hexToOid(params.value) !== OID_SM2) throw new Error('unsupported key algorithm, only SM2 keys are supported')
+    } else if (item.tag === 0xa1) {
+      const bitString = item.children[0]
+      if (!bitString || bitString.tag !== 0x03) throw new Error('invalid SEC1 private key')
+      if (uncompressedPublicKey(bitString.value.substring(2)) !== publicKey) throw new Error('public key does not match private key')
+    }
+  }
+  return { privateKey, publicKey }
+}
+
+/**
+ * 导出 PKCS#8 PrivateKeyInfo
+ */
+export function exportPrivateKeyPkcs8(privateKey: string | SM2PrivateKey, options: ExportPrivateKeyOptions & { format: 'der' }): Uint8Array
+export function exportPrivateKeyPkcs8(privateKey: string | SM2PrivateKey, options?: ExportPrivateKeyOptions & { format?: 'pem' }): string
+export function exportPrivateKeyPkcs8(privateKey: string | SM2PrivateKey, options: ExportPrivateKeyOptions = {}): string | Uint8Array {
+  const publicKey = toPublicKeyHex(options.publicKey || getPublicKeyFromPrivateKey(privateKey))
+  const der = new DERSequence([
+    new DERInteger(ZERO),
+    sm2Algorithm(),
+    new DEROctetString(encodeSec1(toPrivateKeyHex(privateKey), publicKey, false)),
+  ]).getEncodedHex()
+  return output(der, 'PRIVATE KEY', options.format)
+}
+
+/**
+ * 导出 SEC1 ECPrivateKey
+ */
+export function exportPrivateKeySec1(privateKey: string | SM2PrivateKey, options: ExportPrivateKeyOptions & { format: 'der' }): Uint8Array
+export function exportPrivateKeySec1(privateKey: string | SM2PrivateKey, options?: ExportPrivateKeyOptions & { format?: 'pem' }): string
+export function exportPrivateKeySec1(privateKey: string | SM2PrivateKey, options: ExportPrivateKeyOptions = {}): string | Uint8Array {
+  const publicKey = toPublicKeyHex(options.publicKey || getPublicKeyFromPrivateKey(privateKey))
+  return output(encodeSec1(toPrivateKeyHex(privateKey), publicKey, true), 'EC PRIVATE KEY', options.format)
+}
+
+/**
+ * 导出 SubjectPublicKeyInfo
+ */
+export function exportPublicKeySpki(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: ExportKeyOptions & { format: 'der' }): Uint8Array
+export function exportPublicKeySpki(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options?: ExportKeyOptions & { format?: 'pem' }): string
+export function exportPublicKeySpki(publicKey: string | ProjPointType<bigint> | SM2PublicKey, options: ExportKeyOptions = {}): string | Uint8Array {
+  return output(encodeSpki(toPublicKeyHex(publicKey)), 'PUBLIC KEY', options.format)
+}
+
+export function encodeSpki(publicKey: string) {
+  return new DERSequence([
+    sm2Algorithm(),
+    new DERBitString(uncompressedPublicKey(publicKey)),
+  ]).getEncodedHex()
+}
+
+/**
+ * 解析 SubjectPublicKeyInfo 节点，返回非压缩公钥
+ */
+export function decodeSpki(node: ASN1Node) {
+  const [algorithm, bitString] = node.children
+  if (!algorithm || algorithm.tag !== 0x30 || !bitString || bitString.tag !== 0x03) throw new Error('invalid SubjectPublicKeyInfo')
+  assertSm2Algorithm(algorithm)
+  try {
+    return uncompressedPublicKey(bitString.value.substring(2))
+  } catch (error) {
+    throw new Error('invalid public key: not a point on SM2 curve')
+  }
+}
+
+/**
+ * 解析 PKCS#8 PrivateKeyInfo 节点
+ */
+export function decodePkcs8(node: ASN1Node) {
+  const [version, algorithm, privateKeyNode] = node.children
+  if (!version || version.tag !== 0x02 || !algorithm || algorithm.tag !== 0x30 || !privateKeyNode || privateKeyNode.tag !== 0x04) {
+    throw new Error('invalid PKCS#8 private key')
+  }
+  assertSm2Algorithm(algorithm)
+  return decodeSec1(decodeAsn1(privateKeyNode.value))
+}
+
+/**
+ * 导入私钥，支持 PKCS#8 和 SEC1，输入可以为 PEM、der 字节数组或 der 16 进制串
+ */
+export function importPrivateKey(input: string | Uint8Array): KeyPair {
+  const node = decodeAsn1(toDerHex(input, ['PRIVATE KEY', 'EC PRIVATE KEY', 'SM2 PRIVATE KEY']))
+  const [version, second] = node.children
+  if (node.tag !== 0x30 || !version || version.tag !== 0x02 || !second) throw new Error('invalid private key')
+  if (second.tag === 0x30) return decodePkcs8(node)
+  return decodeSec1(node)
+}
+
+/**
+ * 导入 SubjectPublicKeyInfo 公钥，输入可以为 PEM、der 字节数组或 der 16 进制串，返回非压缩公钥
+ */
+export function importPublicKey(input: string | Uint8Array) {
+  const node = decodeAsn1(toDerHex(input, ['PUBLIC KEY']))
+  if (node.tag !== 0x30) throw new Error('invalid SubjectPublicKeyInfo')
+  return decodeSpki(node)
+}
+
+export interface ExportEncryptedPrivateKeyOptions extends ExportPrivateKeyOptions {
+  /** PBKDF2 迭代次数，默认为 10000，最大为 1000000 */
+  iterations?: number
+  /** PBKDF2 的 PRF 标识，默认为 OpenSSL 的 1.2.156.10197.1.401.3.1，GmSSL 使用 1.2.156.10197.1.401.2 */
+  prf?: string
+}
+
+const PBKDF2_PRF: Record<string, CHash> = {
+  [OID_HMAC_SM3]: sm3,
+  [OID_HMAC_SM3_OPENSSL]: sm3,
+  [OID_HMAC_SHA256]: sha256,
+}
+
+// PBKDF2 迭代次数上限，约对应数秒的计算，防止导入构造的文件时长时间阻塞
+const MAX_PBKDF2_ITERATIONS = 1000000
+
+function checkIterations(iterations: number) {
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`invalid PBKDF2 iteration count, should be between 1 and ${MAX_PBKDF2_ITERATIONS}`)
+  }
+}
+
+function passwordToArray(password: string | Uint8Array) {
+  return typeof password === 'string' ? utf8ToArray(password) : password
+}
+
+/**
+ * 导出加密的 PKCS#8 EncryptedPrivateKeyInfo，使用 PBES2（PBKDF2-HMAC-SM3 + SM4-CBC），PRF 标识默认与 OpenSSL 一致
+ */
+export function exportEncryptedPrivateKey(privateKey: string | SM2PrivateKey, password: string | Uint8Array, options: ExportEncryptedPrivateKeyOptions & { format: 'der' }): Uint8Array
+export function exportEncryptedPrivateKey(privateKey: string | SM2PrivateKey, password: string | Uint8Array, options?: ExportEncryptedPrivateKeyOptions & { format?: 'pem' }): string
+export function exportEncryptedPrivateKey(privateKey: string | SM2PrivateKey, password: string | Uint8Array, options: ExportEncryptedPrivateKeyOptions = {}): string | Uint8Array {
+  const { iterations = 10000, prf = OID_HMAC_SM3_OPENSSL, format } = options
+  if (prf !== OID_HMAC_SM3_OPENSSL && prf !== OID_HMAC_SM3) throw new Error('unsupported PBKDF2 pseudo random function')
+  checkIterations(iterations)
+  const salt = randomBytes(16)
+  const iv = randomBytes(16)
+  const key = pbkdf2Hmac(sm3, passwordToArray(password), salt, iterations, 16)
+  const plain = exportPrivateKeyPkcs8(privateKey, { publicKey: options.publicKey, format: 'der' })
+  const encrypted = sm4.encrypt(plain, key, { mode: 'cbc', iv, output: 'array' })
+  const der = new DERSequence([
+    new DERSequence([
+      new DERObjectIdentifier(OID_PBES2),
+      new DERSequence([
+        new DERSequence([
+          new DERObjectIdentifier(OID_PBKDF2),
+          new DERSequence([
+            new DEROctetString(bytesToHex(salt)),
+            new DERInteger(BigInt(iterations)),
+            new DERSequence([new DERObjectIdentifier(prf), new DERNull()]),
+          ]),
+        ]),
+        new DERSequence([new DERObjectIdentifier(OID_SM4_CBC), new DEROctetString(bytesToHex(iv))]),
+      ]),
+    ]),
+    new DEROctetString(bytesToHex(encrypted)),
+  ]).getEncodedHex()
+  return output(der, 'ENCRYPTED PRIVATE KEY', format)
+}
+
+/**
+ * 解析 PBES2 参数，返回派生密钥所需参数
+ */
+function decodePbes2(node: ASN1Node) {
+  const [oid, params] = node.children
+  if (!oid || oid.tag !== 0x06 || hexToOid(oid.value) !== OID_PBES2) throw new Error('unsupported encryption scheme, only PBES2 is supported')
+  const [kdfNode, encNode] = params ? params.children : []
+  if (!kdfNode || !encNode || hexToOid(kdfNode.children[0]?.value || '') !== OID_PBKDF2) throw new Error('unsupported key derivation function, only PBKDF2 is supported')
+  const [saltNode, iterationsNode, ...rest] = kdfNode.children[1]?.children || []
+  if (!saltNode || saltNode.tag !== 0x04 || !iterationsNode || iterationsNode.tag !== 0x02) throw new Error('invalid PBKDF2 parameters')
+  // 缺省时为 hmacWithSHA1，不支持
+  let prf = ''
+  let keyLength = 16
+  for (const item of rest) {
+    if (item.tag === 0x02) keyLength = Number(utils.hexToNumber(item.value))
+    else if (item.tag === 0x30) prf = hexToOid(item.children[0]?.value || '')
+  }
+  if (!PBKDF2_PRF[prf]) throw new Error('unsupported PBKDF2 pseudo random function')
+  if (hexToOid(encNode.children[0]?.value || '') !== OID_SM4_CBC) throw new Error('unsupported encryption algorithm, only SM4-CBC is supported')
+  const ivNode = encNode.children[1]
+  if (!ivNode || ivNode.tag !== 0x04 || ivNode.value.length !== 32) throw new Error('invalid SM4-CBC parameters')
+  if (keyLength !== 16) throw new Error('invalid PBKDF2 key length')
+  // 最高位为 1 的 INTEGER 是负数
+  const iterations = /^[0-7]/.test(iterationsNode.value) ? Number(utils.hexToNumber(iterationsNode.value)) : 0
+  checkIterations(iterations)
+  return {
+    hash: PBKDF2_PRF[prf],
+    salt: hexToArray(saltNode.value),
+    iterations,
+    iv: hexToArray(ivNode.value),
+  }
+}
+
+/**
+ * 导入加密的 PKCS#8 私钥，支持 PBKDF2-HMAC-SM3（以及 OpenSSL 默认的 PBKDF2-HMAC-SHA256）+ SM4-CBC
+ */
+export function importEncryptedPrivateKey(input: string | Uint8Array, password: string | Uint8Array): KeyPair {
+  const node = decodeAsn1(toDerHex(input, ['ENCRYPTED PRIVATE KEY']))
+  const [algorithm, encryptedNode] = node.children
+  if (node.tag !== 0x30 || !algorithm || algorithm.tag !== 0x30 || !encryptedNode || encryptedNode.tag !== 0x04) {
+    throw new Error('invalid encrypted private key')
+  }
+  const {
+    hash, salt, iterations, iv,
+  } = decodePbes2(algorithm)
+  const key = pbkdf2Hmac(hash, passwordToArray(password), salt, iterations, 16)
+  try {
+    const plain = sm4.decrypt(hexToArray(encryptedNode.value), key, { mode: 'cbc', iv, output: 'array' })
+    return decodePkcs8(decodeAsn1(bytesToHex(plain)))
+  } catch (error) {
+    throw new Error('failed to decrypt private key: wrong password or corrupted data')
+  }
+}
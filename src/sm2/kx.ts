@@ -1,34 +1,53 @@
 import { field, sm2Curve } from './ec';
-import { KeyPair, hexToArray, leftPad } from './utils';
+import { KeyPair, generateKeyPairHex, hexToArray, leftPad } from './utils';
 import * as utils from '@noble/curves/abstract/utils';
 import { EmptyArray, getZ } from '.';
 import { kdf } from './kdf';
+import { sm3 } from './sm3';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { SM2PrivateKey, SM2PublicKey, toPrivateKeyScalar, toPublicKeyPoint } from './keyobject';
 
 // 用到的常数
 const wPow2 = utils.hexToNumber('80000000000000000000000000000000')
 const wPow2Sub1 = utils.hexToNumber('7fffffffffffffffffffffffffffffff')
 
-export function calculateSharedKey(
-  keypairA: KeyPair,
-  ephemeralKeypairA: KeyPair,
-  publicKeyB: string,
-  ephemeralPublicKeyB: string,
-  sharedKeyLength: number,
-  isRecipient = false,
-  idA: string = '1234567812345678',
-  idB: string = '1234567812345678',
+function pointToArray(point: ProjPointType<bigint>) {
+  return utils.concatBytes(
+    hexToArray(leftPad(utils.numberToHexUnpadded(point.x), 64)),
+    hexToArray(leftPad(utils.numberToHexUnpadded(point.y), 64)),
+  )
+}
+
+/**
+ * 密钥对可以为 16 进制串或 SM2PrivateKey（使用其公钥）
+ */
+function privateKeyOf(keypair: KeyPair | SM2PrivateKey) {
+  return keypair instanceof SM2PrivateKey ? keypair : keypair.privateKey
+}
+
+/**
+ * 计算共享点 U 以及 ZA、ZB，ZA 始终为发起方，ZB 始终为响应方
+ */
+function calculateSharedPoint(
+  keypairA: KeyPair | SM2PrivateKey,
+  ephemeralKeypairA: KeyPair | SM2PrivateKey,
+  publicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  ephemeralPublicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  isRecipient: boolean,
+  idA: string,
+  idB: string,
 ) {
-  const RA = sm2Curve.ProjectivePoint.fromHex(ephemeralKeypairA.publicKey)
-  const RB = sm2Curve.ProjectivePoint.fromHex(ephemeralPublicKeyB)
-  // const PA = sm2Curve.ProjectivePoint.fromHex(keypairA.publicKey) // 用不到
-  const PB = sm2Curve.ProjectivePoint.fromHex(publicKeyB)
+  const RA = toPublicKeyPoint(ephemeralKeypairA.publicKey)
+  const RB = toPublicKeyPoint(ephemeralPublicKeyB)
+  // const PA = toPublicKeyPoint(keypairA.publicKey) // 用不到
+  const PB = toPublicKeyPoint(publicKeyB)
   let ZA = getZ(keypairA.publicKey, idA)
   let ZB = getZ(publicKeyB, idB)
   if (isRecipient) {
     [ZA, ZB] = [ZB, ZA];
   }
-  const rA = utils.hexToNumber(ephemeralKeypairA.privateKey)
-  const dA = utils.hexToNumber(keypairA.privateKey)
+  const rA = toPrivateKeyScalar(privateKeyOf(ephemeralKeypairA))
+  const dA = toPrivateKeyScalar(privateKeyOf(keypairA))
   // 1.先算 tA
   const x1 = RA.x
   // x1_ = 2^w + (x1 & (2^w - 1))
@@ -42,11 +61,247 @@ export function calculateSharedKey(
   const x2_ = field.add(wPow2, (x2 & wPow2Sub1))
   // U = [h * tA](PB + x2_ * RB)
   const U = RB.multiply(x2_).add(PB).multiply(tA)
+  if (U.equals(sm2Curve.ProjectivePoint.ZERO)) throw new Error('key exchange failed: U is the point at infinity')
+
+  return {
+    U,
+    ZA,
+    ZB,
+    // 发起方临时公钥在前，响应方临时公钥在后
+    RA: isRecipient ? RB : RA,
+    RB: isRecipient ? RA : RB,
+  }
+}
+
+export function calculateSharedKey(
+  keypairA: KeyPair | SM2PrivateKey,
+  ephemeralKeypairA: KeyPair | SM2PrivateKey,
+  publicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  ephemeralPublicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  sharedKeyLength: number,
+  isRecipient = false,
+  idA: string = '1234567812345678',
+  idB: string = '1234567812345678',
+) {
+  const { U, ZA, ZB } = calculateSharedPoint(keypairA, ephemeralKeypairA, publicKeyB, ephemeralPublicKeyB, isRecipient, idA, idB)
 
   // 3.算 KDF
   // KA = KDF(xU || yU || ZA || ZB, kLen)
-  const xU = hexToArray(leftPad(utils.numberToHexUnpadded(U.x), 64))
-  const yU = hexToArray(leftPad(utils.numberToHexUnpadded(U.y), 64))
-  const KA = kdf(utils.concatBytes(xU, yU, ZA, ZB), sharedKeyLength)
+  const KA = kdf(utils.concatBytes(pointToArray(U), ZA, ZB), sharedKeyLength)
   return KA
 }
+
+export interface SharedKeyWithConfirmation {
+  /** 协商出的共享密钥 */
+  sharedKey: Uint8Array
+  /** 需要发送给对方的确认值，发起方为 SA，响应方为 SB */
+  confirmation: Uint8Array
+  /** 期望从对方收到的确认值，发起方为 S1（对应 SB），响应方为 S2（对应 SA） */
+  peerConfirmation: Uint8Array
+}
+
+/**
+ * 由共享点 U 计算确认值，参数均为字节串，点为 x || y，RA 为发起方临时公钥，RB 为响应方临时公钥
+ * S1 与 SB 相同，S2 与 SA 相同
+ */
+export function calculateKeyConfirmation(xyU: Uint8Array, ZA: Uint8Array, ZB: Uint8Array, RA: Uint8Array, RB: Uint8Array) {
+  const xU = xyU.subarray(0, 32)
+  const yU = xyU.subarray(32)
+  const inner = sm3(utils.concatBytes(xU, ZA, ZB, RA, RB))
+  return {
+    S1: sm3(utils.concatBytes(new Uint8Array([0x02]), yU, inner)),
+    S2: sm3(utils.concatBytes(new Uint8Array([0x03]), yU, inner)),
+  }
+}
+
+/**
+ * 带密钥确认的密钥交换，见 GB/T 32918.3 中的可选步骤
+ * S1/SB = Hash(0x02 || yU || Hash(xU || ZA || ZB || x1 || y1 || x2 || y2))
+ * S2/SA = Hash(0x03 || yU || Hash(xU || ZA || ZB || x1 || y1 || x2 || y2))
+ */
+export function calculateSharedKeyWithConfirmation(
+  keypairA: KeyPair | SM2PrivateKey,
+  ephemeralKeypairA: KeyPair | SM2PrivateKey,
+  publicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  ephemeralPublicKeyB: string | ProjPointType<bigint> | SM2PublicKey,
+  sharedKeyLength: number,
+  isRecipient = false,
+  idA: string = '1234567812345678',
+  idB: string = '1234567812345678',
+): SharedKeyWithConfirmation {
+  const { U, ZA, ZB, RA, RB } = calculateSharedPoint(keypairA, ephemeralKeypairA, publicKeyB, ephemeralPublicKeyB, isRecipient, idA, idB)
+  const xyU = pointToArray(U)
+  const sharedKey = kdf(utils.concatBytes(xyU, ZA, ZB), sharedKeyLength)
+  const { S1, S2 } = calculateKeyConfirmation(xyU, ZA, ZB, pointToArray(RA), pointToArray(RB))
+
+  return isRecipient ? {
+    sharedKey,
+    confirmation: S1,
+    peerConfirmation: S2,
+  } : {
+    sharedKey,
+    confirmation: S2,
+    peerConfirmation: S1,
+  }
+}
+
+/**
+ * 校验对方发来的确认值，不一致时抛出异常
+ */
+export function verifyKeyConfirmation(expected: Uint8Array, received: Uint8Array | string) {
+  const receivedArr = typeof received === 'string' ? hexToArray(received) : received
+  let diff = expected.length ^ receivedArr.length
+  for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ (receivedArr[i] ?? 0)
+  if (diff !== 0) throw new Error('key confirmation mismatch: peer derived a different shared key')
+}
+
+export interface SM2KeyExchangeOptions {
+  /** 自身长期密钥对，也可以为 SM2PrivateKey */
+  keypair: KeyPair | SM2PrivateKey
+  /** 对方长期公钥 */
+  peerPublicKey: string | ProjPointType<bigint> | SM2PublicKey
+  /** 共享密钥长度（字节） */
+  keyLength: number
+  /** 自身身份，默认为 1234567812345678 */
+  id?: string
+  /** 对方身份，默认为 1234567812345678 */
+  peerId?: string
+  /** 是否进行密钥确认，默认不开启 */
+  confirm?: boolean
+}
+
+export interface KeyExchangeMessage {
+  /** 临时公钥，发起方为 RA，响应方为 RB */
+  ephemeralPublicKey: string
+  /** 确认值，响应方为 SB */
+  confirmation?: string
+}
+
+export interface KeyConfirmationMessage {
+  /** 发起方的确认值 SA */
+  confirmation: string
+}
+
+type KeyExchangeRole = 'initiator' | 'responder'
+type KeyExchangeState = 'initial' | 'started' | 'responded' | 'done'
+
+/**
+ * 有状态的密钥交换会话，一个实例只能完成一次密钥交换
+ * 发起方：start() -> finish(msgB)
+ * 响应方：respond(msgA) -> confirm(msgA2)（仅开启密钥确认时需要）
+ */
+export class SM2KeyExchange {
+  private state: KeyExchangeState = 'initial'
+  private ephemeralKeypair: KeyPair | null = null
+  private sharedKey: Uint8Array | null = null
+  private peerConfirmation: Uint8Array | null = null
+
+  constructor(public readonly role: KeyExchangeRole, private readonly options: SM2KeyExchangeOptions) {
+    if (role !== 'initiator' && role !== 'responder') throw new Error('invalid key exchange role')
+  }
+
+  /**
+   * 发起方第一步：生成临时密钥对，输出 RA
+   */
+  start(): KeyExchangeMessage {
+    this.assertStep('initiator', 'initial', 'start')
+    this.ephemeralKeypair = generateKeyPairHex()
+    this.state = 'started'
+    return { ephemeralPublicKey: this.ephemeralKeypair.publicKey }
+  }
+
+  /**
+   * 响应方：接收 RA，生成临时密钥对，输出 RB（及 SB）
+   */
+  respond(message: KeyExchangeMessage): KeyExchangeMessage {
+    this.assertStep('responder', 'initial', 'respond')
+    // 先标记为已使用，失败后不能重试
+    this.state = 'done'
+    const ephemeralKeypair = generateKeyPairHex()
+    const result = this.agree(ephemeralKeypair, message.ephemeralPublicKey)
+    const reply: KeyExchangeMessage = { ephemeralPublicKey: ephemeralKeypair.publicKey }
+    if (this.options.confirm) {
+      reply.confirmation = utils.bytesToHex(result.confirmation)
+      this.peerConfirmation = result.peerConfirmation
+      this.state = 'responded'
+    }
+    return reply
+  }
+
+  /**
+   * 发起方第二步：接收 RB（及 SB），校验后得到共享密钥，开启密钥确认时输出 SA
+   */
+  finish(message: KeyExchangeMessage): KeyConfirmationMessage | undefined {
+    this.assertStep('initiator', 'started', 'finish')
+    // 先标记为已使用并丢弃临时密钥，失败后不能用同一个临时密钥重试
+    const ephemeralKeypair = this.ephemeralKeypair!
+    this.ephemeralKeypair = null
+    this.state = 'done'
+    const result = this.agree(ephemeralKeypair, message.ephemeralPublicKey)
+    if (this.options.confirm) {
+      if (!message.confirmation) {
+        this.abort()
+        throw new Error('key confirmation missing from responder message')
+      }
+      this.checkConfirmation(result.peerConfirmation, message.confirmation)
+    }
+    return this.options.confirm ? { confirmation: utils.bytesToHex(result.confirmation) } : undefined
+  }
+
+  /**
+   * 响应方第二步：校验发起方的 SA
+   */
+  confirm(message: KeyConfirmationMessage) {
+    this.assertStep('responder', 'responded', 'confirm')
+    this.checkConfirmation(this.peerConfirmation!, message.confirmation)
+    this.peerConfirmation = null
+    this.state = 'done'
+  }
+
+  /**
+   * 获取共享密钥，仅在密钥交换（及确认）完成后可用
+   */
+  getSharedKey() {
+    if (this.state !== 'done' || !this.sharedKey) throw new Error('key exchange is not completed')
+    return this.sharedKey
+  }
+
+  private agree(ephemeralKeypair: KeyPair, peerEphemeralPublicKey: string) {
+    const {
+      keypair, peerPublicKey, keyLength, id = '1234567812345678', peerId = '1234567812345678'
+    } = this.options
+    const result = calculateSharedKeyWithConfirmation(
+      keypair,
+      ephemeralKeypair,
+      peerPublicKey,
+      peerEphemeralPublicKey,
+      keyLength,
+      this.role === 'responder',
+      id,
+      peerId,
+    )
+    this.sharedKey = result.sharedKey
+    return result
+  }
+
+  private checkConfirmation(expected: Uint8Array, received: string) {
+    try {
+      verifyKeyConfirmation(expected, received)
+    } catch (error) {
+      this.abort()
+      throw error
+    }
+  }
+
+  private abort() {
+    if (this.sharedKey) this.sharedKey.fill(0)
+    this.sharedKey = null
+    this.peerConfirmation = null
+    this.state = 'done'
+  }
+
+  private assertStep(role: KeyExchangeRole, state: KeyExchangeState, step: string) {
+    if (this.role !== role) throw new Error(`${step}() can only be called by the ${role}`)
+    if (this.state !== state) throw new Error(`${step}() called out of order or session already used`)
+  }
+}
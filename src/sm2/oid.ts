@@ -0,0 +1,39 @@
+// 常用对象标识符
+export const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1'
+export const OID_SM2 = '1.2.156.10197.1.301'
+export const OID_SM3 = '1.2.156.10197.1.401'
+// GmSSL、BouncyCastle 中 HMAC-SM3 使用的 OID
+export const OID_HMAC_SM3 = '1.2.156.10197.1.401.2'
+// OpenSSL 中 hmacWithSM3 使用的 OID
+export const OID_HMAC_SM3_OPENSSL = '1.2.156.10197.1.401.3.1'
+export const OID_HMAC_SHA256 = '1.2.840.113549.2.9'
+export const OID_SM4_CBC = '1.2.156.10197.1.104.2'
+export const OID_SM4_GCM = '1.2.156.10197.1.104.8'
+export const OID_PBES2 = '1.2.840.113549.1.5.13'
+export const OID_PBKDF2 = '1.2.840.113549.1.5.12'
+export const OID_SM2_SM3 = '1.2.156.10197.1.501'
+
+// X.509 扩展
+export const OID_SUBJECT_KEY_IDENTIFIER = '2.5.29.14'
+export const OID_KEY_USAGE = '2.5.29.15'
+export const OID_SUBJECT_ALT_NAME = '2.5.29.17'
+export const OID_BASIC_CONSTRAINTS = '2.5.29.19'
+export const OID_AUTHORITY_KEY_IDENTIFIER = '2.5.29.35'
+export const OID_EXTENDED_KEY_USAGE = '2.5.29.37'
+export const OID_EXTENSION_REQUEST = '1.2.840.113549.1.9.14'
+export const OID_CRL_NUMBER = '2.5.29.20'
+export const OID_CRL_REASON = '2.5.29.21'
+
+// GM/T 0010 PKCS#7 内容类型
+export const OID_GM_DATA = '1.2.156.10197.6.1.4.2.1'
+export const OID_GM_SIGNED_DATA = '1.2.156.10197.6.1.4.2.2'
+export const OID_GM_ENVELOPED_DATA = '1.2.156.10197.6.1.4.2.3'
+export const OID_SM2_SIGN = '1.2.156.10197.1.301.1'
+export const OID_SM2_ENCRYPT = '1.2.156.10197.1.301.3'
+// RFC 5652 内容类型与签名属性
+export const OID_PKCS7_DATA = '1.2.840.113549.1.7.1'
+export const OID_PKCS7_SIGNED_DATA = '1.2.840.113549.1.7.2'
+export const OID_PKCS7_ENVELOPED_DATA = '1.2.840.113549.1.7.3'
+export const OID_CONTENT_TYPE = '1.2.840.113549.1.9.3'
+export const OID_MESSAGE_DIGEST = '1.2.840.113549.1.9.4'
+export const OID_SIGNING_TIME = '1.2.840.113549.1.9.5'
@@ -0,0 +1,83 @@
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const BASE64_LOOKUP = new Uint8Array(128).fill(0xff)
+for (let i = 0; i < BASE64_CHARS.length; i++) BASE64_LOOKUP[BASE64_CHARS.charCodeAt(i)] = i
+
+/**
+ * 字节数组转 base64 串
+ */
+export function bytesToBase64(bytes: Uint8Array) {
+  let out = ''
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i]
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0
+    out += BASE64_CHARS[b0 >> 2]
+    out += BASE64_CHARS[((b0 & 0x03) << 4) | (b1 >> 4)]
+    out += i + 1 < bytes.length ? BASE64_CHARS[((b1 & 0x0f) << 2) | (b2 >> 6)] : '='
+    out += i + 2 < bytes.length ? BASE64_CHARS[b2 & 0x3f] : '='
+  }
+  return out
+}
+
+/**
+ * base64 串转字节数组，忽略空白字符
+ */
+export function base64ToBytes(str: string) {
+  str = str.replace(/\s+/g, '').replace(/=+$/, '')
+  if (str.length % 4 === 1) throw new Error('invalid base64 string')
+  const out = new Uint8Array(Math.floor(str.length * 3 / 4))
+  let buffer = 0
+  let bits = 0
+  let offset = 0
+  for (let i = 0; i < str.length; i++) {
+    const code = str.charCodeAt(i)
+    const value = code < 128 ? BASE64_LOOKUP[code] : 0xff
+    if (value === 0xff) throw new Error('invalid base64 string')
+    buffer = (buffer << 6) | value
+    bits += 6
+    if (bits >= 8) {
+      bits -= 8
+      out[offset++] = (buffer >> bits) & 0xff
+    }
+  }
+  return out
+}
+
+/**
+ * 字节数组转 base64url 串（不带填充）
+ */
+export function bytesToBase64url(bytes: Uint8Array) {
+  return bytesToBase64(bytes).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+/**
+ * base64url 串转字节数组，不接受填充和标准 base64 字符
+ */
+export function base64urlToBytes(str: string) {
+  if (!/^[A-Za-z0-9_-]*$/.test(str)) throw new Error('invalid base64url string')
+  return base64ToBytes(str.replace(/-/g, '+').replace(/_/g, '/'))
+}
+
+/**
+ * der 编码转 PEM
+ */
+export function encodePem(der: Uint8Array, label: string) {
+  const lines = bytesToBase64(der).match(/.{1,64}/g) || []
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`
+}
+
+/**
+ * 解析 PEM，返回标签和 der 编码
+ */
+export function decodePem(pem: string) {
+  const match = pem.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/)
+  if (!match) throw new Error('invalid PEM')
+  return {
+    label: match[1],
+    der: base64ToBytes(match[2]),
+  }
+}
+
+export function isPem(input: string | Uint8Array) {
+  return typeof input === 'string' && input.indexOf('-----BEGIN ') !== -1
+}
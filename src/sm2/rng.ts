@@ -5,6 +5,9 @@
 // Web: globalThis.crypto
 // Node: async import("crypto").webcrypto
 // Mini Program: wx.getRandomValues
+// Custom: setRandomSource, takes precedence over all of the above
+import { strToU8 } from '@/sm3/utils';
+import { sm3 } from './sm3';
 declare module wx {
   function getRandomValues(options: {
     length: number;
@@ -12,10 +15,20 @@ declare module wx {
   }): void;
 }
 
+/** 随机数源，返回 length 字节的随机数 */
+export type RandomSource = (length: number) => Uint8Array
+
+/** 带 generate 方法的随机数发生器，如 SM3HashDRBG、SM4CtrDRBG */
+export interface RandomGenerator {
+  generate(length: number): Uint8Array
+}
+
 const DEFAULT_PRNG_POOL_SIZE = 16384
+let customSource: RandomSource | null = null
 let prngPool = new Uint8Array(0)
 let _syncCrypto: typeof import('crypto')['webcrypto']
 export async function initRNGPool() {
+  if (customSource) return // 使用自定义随机数源
   if ('crypto' in globalThis) {
     _syncCrypto = globalThis.crypto
     return // no need to use pooling
@@ -52,7 +65,49 @@ export async function initRNGPool() {
   }
 }
 
-initRNGPool()
+// 没有可用的随机数实现时（如嵌入式运行时）不在加载时报错，可以通过 setRandomSource 提供随机数
+initRNGPool().catch(() => {})
+
+/**
+ * 设置全局的随机数源，密钥生成、签名、加密以及 IV、盐值等都会使用它，传入 null 恢复默认实现
+ * 注意：自定义随机数源需要自行确保符合密码学安全
+ */
+export function setRandomSource(source: RandomSource | RandomGenerator | null) {
+  if (source === null || typeof source === 'function') {
+    customSource = source
+  } else if (source && typeof source.generate === 'function') {
+    customSource = length => source.generate(length)
+  } else {
+    throw new Error('random source should be a function or have a generate method')
+  }
+}
+
+/**
+ * 由种子派生的确定性随机数源，输出为 SM3(seed || counter) 的串联，相同种子得到相同序列
+ * 仅用于可复现的测试，不能用于生产环境
+ */
+export function createSeededRandomSource(seed: string | Uint8Array): RandomSource {
+  const seedBytes = typeof seed === 'string' ? strToU8(seed) : seed
+  const input = new Uint8Array(seedBytes.length + 4)
+  input.set(seedBytes)
+  const view = new DataView(input.buffer)
+  let counter = 0
+  let block: Uint8Array = new Uint8Array(0)
+  return (length) => {
+    const out = new Uint8Array(length)
+    for (let offset = 0; offset < length;) {
+      if (!block.length) {
+        view.setUint32(seedBytes.length, ++counter, false)
+        block = sm3(input)
+      }
+      const n = Math.min(block.length, length - offset)
+      out.set(block.subarray(0, n), offset)
+      block = block.subarray(n)
+      offset += n
+    }
+    return out
+  }
+}
 
 function consumePool(length: number): Uint8Array {
   if (prngPool.length > length) {
@@ -66,6 +121,18 @@ function consumePool(length: number): Uint8Array {
 }
 
 export function randomBytes(length = 0): Uint8Array {
+  if (customSource) {
+    const result = customSource(length)
+    if (!(result instanceof Uint8Array) || result.length !== length) throw new Error(`random source should return ${length} bytes`)
+    return result
+  }
+  return systemRandomBytes(length)
+}
+
+/**
+ * 平台提供的随机数，不受 setRandomSource 影响，用作 DRBG 的默认熵源
+ */
+export function systemRandomBytes(length = 0): Uint8Array {
   const array = new Uint8Array(length);
   if (_syncCrypto) {
     return _syncCrypto.getRandomValues(array);
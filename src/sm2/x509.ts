@@ -0,0 +1,590 @@
+import * as utils from '@noble/curves/abstract/utils';
+import { ProjPointType } from '@noble/curves/abstract/weierstrass';
+import { bytesToHex } from '@/sm3/utils';
+import {
+  ASN1Node, ASN1Object, DERBitString, DERBoolean, DERInteger, DERObjectIdentifier, DEROctetString, DERRaw, DERSequence, DERSet, DERString,
+  DERTaggedObject, DERTime, decodeAsn1, hexToOid,
+} from './asn1'
+import { TWO, ZERO } from './bn';
+import {
+  KeyFormat, decodeSpki, encodeSpki, toDerHex, uncompressedPublicKey,
+} from './keys'
+import {
+  OID_AUTHORITY_KEY_IDENTIFIER, OID_BASIC_CONSTRAINTS, OID_EXTENDED_KEY_USAGE, OID_EXTENSION_REQUEST, OID_KEY_USAGE, OID_SM2_SM3,
+  OID_SUBJECT_ALT_NAME, OID_SUBJECT_KEY_IDENTIFIER,
+} from './oid'
+import { encodePem } from './pem'
+import { randomBytes } from './rng'
+import { sm3 } from './sm3'
+import { arrayToUtf8, hexToArray, leftPad } from './utils'
+import { SM2PrivateKey, SM2PublicKey, toPublicKeyHex } from './keyobject'
+import { doSignature, doVerifySignature, getPublicKeyFromPrivateKey } from '.'
+
+// 常用 DN 属性
+export const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.4': 'SN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.9': 'street',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.12': 'title',
+  '2.5.4.42': 'GN',
+  '0.9.2342.19200300.100.1.25': 'DC',
+  '1.2.840.113549.1.9.1': 'emailAddress',
+}
+
+export const KEY_USAGES = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly',
+] as const
+
+export type KeyUsage = typeof KEY_USAGES[number]
+
+export interface NameAttribute {
+  oid: string
+  /** 属性简称，如 CN、O，未知属性为 undefined */
+  type?: string
+  value: string
+}
+
+export interface DistinguishedName {
+  /** der 编码的 16 进制串，可用于比较 */
+  hex: string
+  attributes: NameAttribute[]
+  /** 如 C=CN, O=Test CA, CN=Test SM2 Root */
+  text: string
+}
+
+export interface Extension {
+  oid: string
+  critical: boolean
+  /** extnValue 中的 der 编码 */
+  value: string
+}
+
+export interface GeneralName {
+  type: 'email' | 'dns' | 'uri' | 'ip' | 'other'
+  value: string
+}
+
+export interface BasicConstraints {
+  ca: boolean
+  pathLength?: number
+}
+
+export interface Certificate {
+  /** 证书 der 编码的 16 进制串 */
+  hex: string
+  /** 待签名部分 der 编码的 16 进制串 */
+  tbsCertificate: string
+  version: number
+  /** 序列号，16 进制串 */
+  serialNumber: string
+  signatureAlgorithm: string
+  issuer: DistinguishedName
+  subject: DistinguishedName
+  notBefore: Date
+  notAfter: Date
+  /** 非压缩公钥 */
+  publicKey: string
+  extensions: Extension[]
+  basicConstraints?: BasicConstraints
+  keyUsage?: KeyUsage[]
+  extendedKeyUsage?: string[]
+  subjectAltName?: GeneralName[]
+  subjectKeyIdentifier?: string
+  authorityKeyIdentifier?: string
+  /** der 编码的签名值 */
+  signature: string
+}
+
+function expectTag(node: ASN1Node | undefined, tag: number, what: string): ASN1Node {
+  if (!node || node.tag !== tag) throw new Error(`invalid certificate: bad ${what}`)
+  return node
+}
+
+/**
+ * der 整数值转 16 进制串，去掉符号位补齐的 00
+ */
+export function integerToHex(value: string) {
+  const hex = utils.numberToHexUnpadded(utils.hexToNumber(value || '00'))
+  return leftPad(hex, hex.length + hex.length % 2)
+}
+
+/**
+ * 解析字符串类型
+ */
+export function decodeString(node: ASN1Node) {
+  const bytes = hexToArray(node.value)
+  if (node.tag === 0x1e) {
+    // BMPString，UTF-16BE
+    let str = ''
+    for (let i = 0; i + 1 < bytes.length; i += 2) str += String.fromCharCode((bytes[i] << 8) | bytes[i + 1])
+    return str
+  }
+  return arrayToUtf8(bytes)
+}
+
+/**
+ * 解析 UTCTime 和 GeneralizedTime
+ */
+export function decodeTime(node: ASN1Node) {
+  const str = decodeString(node)
+  const match = node.tag === 0x17
+    ? str.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+    : str.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/)
+  if (!match || (node.tag !== 0x17 && node.tag !== 0x18)) throw new Error('invalid time: ' + str)
+  let year = +match[1]
+  if (node.tag === 0x17) year += year >= 50 ? 1900 : 2000
+  return new Date(Date.UTC(year, +match[2] - 1, +match[3], +match[4], +match[5], +(match[6] || 0)))
+}
+
+export function decodeName(node: ASN1Node): DistinguishedName {
+  const attributes: NameAttribute[] = []
+  for (const rdn of node.children) {
+    for (const atv of rdn.children) {
+      const [oidNode, valueNode] = atv.children
+      if (!oidNode || !valueNode) throw new Error('invalid distinguished name')
+      const oid = hexToOid(oidNode.value)
+      attributes.push({ oid, type: NAME_ATTRIBUTES[oid], value: decodeString(valueNode) })
+    }
+  }
+  return {
+    hex: node.hex,
+    attributes,
+    text: attributes.map(attr => `${attr.type || attr.oid}=${attr.value}`).join(', '),
+  }
+}
+
+/**
+ * 解析 GeneralNames
+ */
+export function decodeGeneralNames(node: ASN1Node): GeneralName[] {
+  return node.children.map(item => {
+    switch (item.tag) {
+      case 0x81:
+        return { type: 'email', value: arrayToUtf8(hexToArray(item.value)) }
+      case 0x82:
+        return { type: 'dns', value: arrayToUtf8(hexToArray(item.value)) }
+      case 0x86:
+        return { type: 'uri', value: arrayToUtf8(hexToArray(item.value)) }
+      case 0x87: {
+        const bytes = hexToArray(item.value)
+        if (bytes.length === 4) return { type: 'ip', value: Array.from(bytes).join('.') }
+        const groups: string[] = []
+        for (let i = 0; i < bytes.length; i += 2) groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16))
+        return { type: 'ip', value: groups.join(':') }
+      }
+      default:
+        return { type: 'other', value: item.hex }
+    }
+  })
+}
+
+/**
+ * 解析 Extensions，同时解析常用扩展
+ */
+export function decodeExtensions(node: ASN1Node) {
+  const extensions: Extension[] = []
+  const parsed: Pick<Certificate, 'basicConstraints' | 'keyUsage' | 'extendedKeyUsage' | 'subjectAltName' | 'subjectKeyIdentifier' | 'authorityKeyIdentifier'> = {}
+  for (const ext of node.children) {
+    const [oidNode, second, third] = ext.children
+    const oid = hexToOid(expectTag(oidNode, 0x06, 'extension').value)
+    const critical = second && second.tag === 0x01 ? second.value !== '00' : false
+    const valueNode = expectTag(second && second.tag === 0x04 ? second : third, 0x04, 'extension')
+    extensions.push({ oid, critical, value: valueNode.value })
+
+    const value = decodeAsn1(valueNode.value)
+    if (oid === OID_BASIC_CONSTRAINTS) {
+      const ca = value.children.find(item => item.tag === 0x01)
+      const pathLength = value.children.find(item => item.tag === 0x02)
+      parsed.basicConstraints = { ca: !!ca && ca.value !== '00' }
+      if (pathLength) parsed.basicConstraints.pathLength = Number(utils.hexToNumber(pathLength.value))
+    } else if (oid === OID_KEY_USAGE) {
+      const bits = hexToArray(value.value.substring(2))
+      parsed.keyUsage = KEY_USAGES.filter((_, i) => bits[i >> 3] & (0x80 >> (i & 7)))
+    } else if (oid === OID_EXTENDED_KEY_USAGE) {
+      parsed.extendedKeyUsage = value.children.map(item => hexToOid(item.value))
+    } else if (oid === OID_SUBJECT_ALT_NAME) {
+      parsed.subjectAltName = decodeGeneralNames(value)
+    } else if (oid === OID_SUBJECT_KEY_IDENTIFIER) {
+      parsed.subjectKeyIdentifier = value.value
+    } else if (oid === OID_AUTHORITY_KEY_IDENTIFIER) {
+      const keyId = value.children.find(item => item.tag === 0x80)
+      if (keyId) parsed.authorityKeyIdentifier = keyId.value
+    }
+  }
+  return { extensions, ...parsed }
+}
+
+/**
+ * 解析 X.509 证书，输入可以为 PEM、der 字节数组或 der 16 进制串
+ */
+export function parseCertificate(input: string | Uint8Array): Certificate {
+  const root = decodeAsn1(toDerHex(input, ['CERTIFICATE']))
+  const [tbs, algorithm, signature] = expectTag(root, 0x30, 'structure').children
+  expectTag(tbs, 0x30, 'tbsCertificate')
+  const signatureAlgorithm = hexToOid(expectTag(expectTag(algorithm, 0x30, 'signature algorithm').children[0], 0x06, 'signature algorithm').value)
+  expectTag(signature, 0x03, 'signature')
+
+  const items = tbs.children.slice()
+  let version = 1
+  if (items[0] && items[0].tag === 0xa0) {
+    version = Number(utils.hexToNumber(expectTag(items.shift()!.children[0], 0x02, 'version').value)) + 1
+  }
+  const serial = expectTag(items.shift(), 0x02, 'serial number')
+  const innerAlgorithm = expectTag(items.shift(), 0x30, 'signature algorithm')
+  if (hexToOid(innerAlgorithm.children[0]?.value || '') !== signatureAlgorithm) throw new Error('invalid certificate: signature algorithm mismatch')
+  const issuer = decodeName(expectTag(items.shift(), 0x30, 'issuer'))
+  const [notBefore, notAfter] = expectTag(items.shift(), 0x30, 'validity').children
+  if (!notBefore || !notAfter) throw new Error('invalid certificate: bad validity')
+  const subject = decodeName(expectTag(items.shift(), 0x30, 'subject'))
+  const publicKey = decodeSpki(expectTag(items.shift(), 0x30, 'subject public key info'))
+  const extensionsNode = items.find(item => item.tag === 0xa3)
+
+  return {
+    hex: root.hex,
+    tbsCertificate: tbs.hex,
+    version,
+    serialNumber: integerToHex(serial.value),
+    signatureAlgorithm,
+    issuer,
+    subject,
+    notBefore: decodeTime(notBefore),
+    notAfter: decodeTime(notAfter),
+    publicKey,
+    ...(extensionsNode ? decodeExtensions(expectTag(extensionsNode.children[0], 0x30, 'extensions')) : { extensions: [] }),
+    signature: signature!.value.substring(2),
+  }
+}
+
+export function toCertificate(input: Certificate | string | Uint8Array) {
+  return typeof input === 'object' && !(input instanceof Uint8Array) ? input : parseCertificate(input)
+}
+
+/**
+ * 签发者证书取其公钥，其余视为公钥原样返回
+ */
+export function toIssuerPublicKey(issuer: Certificate | string | ProjPointType<bigint> | SM2PublicKey) {
+  return typeof issuer === 'object' && 'tbsCertificate' in issuer ? issuer.publicKey : issuer
+}
+
+/**
+ * 使用签发者公钥验证证书签名（SM2-with-SM3，计算 Z 值），签名算法不是 SM2-with-SM3 时返回 false
+ * @param issuer 签发者公钥或签发者证书
+ */
+export function verifyCertificate(
+  certificate: Certificate | string | Uint8Array,
+  issuer: Certificate | string | ProjPointType<bigint> | SM2PublicKey,
+  options: { userId?: string } = {},
+) {
+  const cert = toCertificate(certificate)
+  const issuerPublicKey = toIssuerPublicKey(issuer)
+  // 与 verifyCertificationRequest 相同，不支持的签名算法视为验证失败
+  if (cert.signatureAlgorithm !== OID_SM2_SM3) return false
+  try {
+    return doVerifySignature(hexToArray(cert.tbsCertificate), cert.signature, issuerPublicKey, {
+      der: true,
+      hash: true,
+      userId: options.userId,
+    })
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * DN 输入，键为属性简称（如 CN、O）或 OID，按插入顺序编码
+ */
+export type NameInput = Record<string, string | string[]>
+
+export interface ExtensionsInput {
+  basicConstraints?: BasicConstraints
+  keyUsage?: KeyUsage[]
+  extendedKeyUsage?: string[]
+  subjectAltName?: GeneralName[]
+}
+
+export interface CertificationRequestOptions {
+  subject: NameInput
+  privateKey: string | SM2PrivateKey
+  /** 公钥，不传则由私钥推导 */
+  publicKey?: string | ProjPointType<bigint> | SM2PublicKey
+  /** 通过 extensionRequest 属性请求的扩展 */
+  extensions?: ExtensionsInput
+  /** 签名使用的 userId，默认为 1234567812345678 */
+  userId?: string
+  format?: KeyFormat
+}
+
+export interface CertificateOptions {
+  /** 可直接传入证书请求解析得到的 subject */
+  subject: NameInput | DistinguishedName
+  /** 证书主体公钥 */
+  publicKey: string | ProjPointType<bigint> | SM2PublicKey
+  /** 签发者证书，不传则为自签名证书 */
+  issuer?: Certificate | string | Uint8Array
+  /** 签发者私钥，自签名时为主体私钥 */
+  issuerPrivateKey: string | SM2PrivateKey
+  /** 序列号，16 进制串，默认随机生成 */
+  serialNumber?: string
+  /** 默认为当前时间 */
+  notBefore?: Date
+  /** 默认为 notBefore 之后一年 */
+  notAfter?: Date
+  extensions?: ExtensionsInput
+  /** 签名使用的 userId，默认为 1234567812345678 */
+  userId?: string
+  format?: KeyFormat
+}
+
+const NAME_OIDS: Record<string, string> = {}
+for (const oid of Object.keys(NAME_ATTRIBUTES)) NAME_OIDS[NAME_ATTRIBUTES[oid]] = oid
+
+export function encodeName(name: NameInput) {
+  const rdns: ASN1Object[] = []
+  for (const key of Object.keys(name)) {
+    const oid = NAME_OIDS[key] || key
+    if (!/^\d+(\.\d+)+$/.test(oid)) throw new Error('unknown name attribute: ' + key)
+    const values = Array.isArray(name[key]) ? name[key] as string[] : [name[key] as string]
+    for (const value of values) {
+      // C 和 serialNumber 为 PrintableString，emailAddress 和 DC 为 IA5String，其余为 UTF8String
+      const type = oid === '2.5.4.6' || oid === '2.5.4.5' ? '13' : NAME_ATTRIBUTES[oid] === 'emailAddress' || NAME_ATTRIBUTES[oid] === 'DC' ? '16' : '0c'
+      rdns.push(new DERSet([new DERSequence([new DERObjectIdentifier(oid), new DERString(value, type)])]))
+    }
+  }
+  return new DERSequence(rdns)
+}
+
+function nameToAsn1(name: NameInput | DistinguishedName) {
+  return typeof name.hex === 'string' && Array.isArray(name.attributes) ? new DERRaw(name.hex) : encodeName(name as NameInput)
+}
+
+function encodeGeneralName(name: GeneralName) {
+  switch (name.type) {
+    case 'email':
+      return new DERTaggedObject(1, new DERString(name.value, '16'), false)
+    case 'dns':
+      return new DERTaggedObject(2, new DERString(name.value, '16'), false)
+    case 'uri':
+      return new DERTaggedObject(6, new DERString(name.value, '16'), false)
+    case 'ip': {
+      let hex: string
+      if (name.value.indexOf(':') === -1) {
+        hex = name.value.split('.').map(part => leftPad((+part).toString(16), 2)).join('')
+      } else {
+        // 展开 IPv6 中的 ::
+        const [head, tail = ''] = name.value.split('::')
+        const headGroups = head ? head.split(':') : []
+        const tailGroups = tail ? tail.split(':') : []
+        const groups = name.value.indexOf('::') === -1
+          ? headGroups
+          : [...headGroups, ...new Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+        hex = groups.map(group => leftPad(group, 4)).join('')
+      }
+      return new DERTaggedObject(7, new DEROctetString(hex), false)
+    }
+    default:
+      return new DERRaw(name.value)
+  }
+}
+
+function encodeKeyUsage(usages: KeyUsage[]) {
+  const bits = usages.map(usage => {
+    const index = KEY_USAGES.indexOf(usage)
+    if (index === -1) throw new Error('unknown key usage: ' + usage)
+    return index
+  })
+  const highest = Math.max(...bits)
+  const bytes = new Uint8Array((highest >> 3) + 1)
+  for (const bit of bits) bytes[bit >> 3] |= 0x80 >> (bit & 7)
+  return new DERBitString(bytesToHex(bytes), bytes.length * 8 - highest - 1)
+}
+
+export function encodeExtension(oid: string, critical: boolean, value: ASN1Object) {
+  const items: ASN1Object[] = [new DERObjectIdentifier(oid)]
+  if (critical) items.push(new DERBoolean(true))
+  items.push(new DEROctetString(value.getEncodedHex()))
+  return new DERSequence(items)
+}
+
+/**
+ * 公钥标识，取 SM3(公钥) 的前 160 比特
+ */
+export function keyIdentifier(publicKey: string) {
+  return bytesToHex(sm3(hexToArray(publicKey)).subarray(0, 20))
+}
+
+function encodeExtensions(extensions: ExtensionsInput, extra: ASN1Object[] = []) {
+  const items: ASN1Object[] = []
+  const {
+    basicConstraints, keyUsage, extendedKeyUsage, subjectAltName,
+  } = extensions
+  if (basicConstraints) {
+    const value: ASN1Object[] = []
+    if (basicConstraints.ca) value.push(new DERBoolean(true))
+    if (basicConstraints.pathLength !== undefined) value.push(new DERInteger(BigInt(basicConstraints.pathLength)))
+    items.push(encodeExtension(OID_BASIC_CONSTRAINTS, basicConstraints.ca, new DERSequence(value)))
+  }
+  if (keyUsage && keyUsage.length) items.push(encodeExtension(OID_KEY_USAGE, true, encodeKeyUsage(keyUsage)))
+  if (extendedKeyUsage && extendedKeyUsage.length) {
+    items.push(encodeExtension(OID_EXTENDED_KEY_USAGE, false, new DERSequence(extendedKeyUsage.map(oid => new DERObjectIdentifier(oid)))))
+  }
+  if (subjectAltName && subjectAltName.length) {
+    items.push(encodeExtension(OID_SUBJECT_ALT_NAME, false, new DERSequence(subjectAltName.map(encodeGeneralName))))
+  }
+  return new DERSequence([...items, ...extra])
+}
+
+export function signTbs(tbs: string, privateKey: string | SM2PrivateKey, publicKey: string, userId?: string) {
+  const signature = doSignature(hexToArray(tbs), privateKey, {
+    der: true, hash: true, publicKey, userId,
+  })
+  return new DERSequence([
+    new DERRaw(tbs),
+    new DERSequence([new DERObjectIdentifier(OID_SM2_SM3)]),
+    new DERBitString(signature),
+  ]).getEncodedHex()
+}
+
+export function toOutput(der: string, label: string, format: KeyFormat = 'pem') {
+  const bytes = hexToArray(der)
+  return format === 'der' ? bytes : encodePem(bytes, label)
+}
+
+/**
+ * 生成 PKCS#10 证书请求，使用 SM2-with-SM3 签名
+ */
+export function createCertificationRequest(options: CertificationRequestOptions & { format: 'der' }): Uint8Array
+export function createCertificationRequest(options: CertificationRequestOptions & { format?: 'pem' }): string
+export function createCertificationRequest(options: CertificationRequestOptions): string | Uint8Array {
+  const {
+    subject, privateKey, extensions, userId, format,
+  } = options
+  const publicKey = toPublicKeyHex(options.publicKey || getPublicKeyFromPrivateKey(privateKey))
+  const attributes: ASN1Object[] = []
+  if (extensions) {
+    attributes.push(new DERSequence([
+      new DERObjectIdentifier(OID_EXTENSION_REQUEST),
+      new DERSet([encodeExtensions(extensions)]),
+    ]))
+  }
+  const info = new DERSequence([
+    new DERInteger(ZERO),
+    encodeName(subject),
+    new DERRaw(encodeSpki(publicKey)),
+    new DERTaggedObject(0, new DERSet(attributes), false),
+  ]).getEncodedHex()
+  return toOutput(signTbs(info, privateKey, publicKey, userId), 'CERTIFICATE REQUEST', format)
+}
+
+export interface CertificationRequest {
+  hex: string
+  /** 待签名部分 der 编码的 16 进制串 */
+  certificationRequestInfo: string
+  subject: DistinguishedName
+  publicKey: string
+  signatureAlgorithm: string
+  signature: string
+  extensions: Extension[]
+  basicConstraints?: BasicConstraints
+  keyUsage?: KeyUsage[]
+  extendedKeyUsage?: string[]
+  subjectAltName?: GeneralName[]
+}
+
+/**
+ * 解析 PKCS#10 证书请求
+ */
+export function parseCertificationRequest(input: string | Uint8Array): CertificationRequest {
+  const root = decodeAsn1(toDerHex(input, ['CERTIFICATE REQUEST', 'NEW CERTIFICATE REQUEST']))
+  const [info, algorithm, signature] = root.children
+  if (root.tag !== 0x30 || !info || info.tag !== 0x30 || !algorithm || !signature || signature.tag !== 0x03) throw new Error('invalid certification request')
+  const [, subject, spki, attributes] = info.children
+  if (!subject || !spki) throw new Error('invalid certification request')
+  let extensions: ReturnType<typeof decodeExtensions> = { extensions: [] }
+  for (const attribute of attributes && attributes.tag === 0xa0 ? attributes.children : []) {
+    const [oid, values] = attribute.children
+    if (oid && values && hexToOid(oid.value) === OID_EXTENSION_REQUEST && values.children[0]) {
+      extensions = decodeExtensions(values.children[0])
+    }
+  }
+  return {
+    hex: root.hex,
+    certificationRequestInfo: info.hex,
+    subject: decodeName(subject),
+    publicKey: decodeSpki(spki),
+    signatureAlgorithm: hexToOid(algorithm.children[0]?.value || ''),
+    signature: signature.value.substring(2),
+    ...extensions,
+  }
+}
+
+/**
+ * 验证证书请求的签名（使用请求中的公钥）
+ */
+export function verifyCertificationRequest(request: CertificationRequest | string | Uint8Array, options: { userId?: string } = {}) {
+  const csr = typeof request === 'object' && !(request instanceof Uint8Array) ? request : parseCertificationRequest(request)
+  if (csr.signatureAlgorithm !== OID_SM2_SM3) return false
+  try {
+    return doVerifySignature(hexToArray(csr.certificationRequestInfo), csr.signature, csr.publicKey, {
+      der: true, hash: true, userId: options.userId,
+    })
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * 生成 X.509 v3 证书，不传 issuer 时为自签名证书
+ */
+export function createCertificate(options: CertificateOptions & { format: 'der' }): Uint8Array
+export function createCertificate(options: CertificateOptions & { format?: 'pem' }): string
+export function createCertificate(options: CertificateOptions): string | Uint8Array {
+  const {
+    subject, issuerPrivateKey, extensions = {}, userId, format,
+  } = options
+  const publicKey = toPublicKeyHex(options.publicKey)
+  const issuer = options.issuer ? toCertificate(options.issuer) : null
+  const issuerPublicKey = issuer ? issuer.publicKey : publicKey
+  if (getPublicKeyFromPrivateKey(issuerPrivateKey) !== uncompressedPublicKey(issuerPublicKey)) {
+    throw new Error('issuer private key does not match issuer public key')
+  }
+  // 默认随机序列号，最高位清零保证为正数
+  const serial = randomBytes(16)
+  serial[0] &= 0x7f
+  const serialNumber = utils.hexToNumber(options.serialNumber || bytesToHex(serial))
+  if (serialNumber <= ZERO) throw new Error('serial number should be positive')
+  const notBefore = options.notBefore || new Date()
+  const notAfter = options.notAfter || new Date(notBefore.getTime() + 365 * 24 * 3600 * 1000)
+
+  const subjectKeyId = keyIdentifier(uncompressedPublicKey(publicKey))
+  const authorityKeyId = issuer ? issuer.subjectKeyIdentifier || keyIdentifier(issuer.publicKey) : subjectKeyId
+  const extra = [
+    encodeExtension(OID_SUBJECT_KEY_IDENTIFIER, false, new DEROctetString(subjectKeyId)),
+    encodeExtension(OID_AUTHORITY_KEY_IDENTIFIER, false, new DERSequence([new DERTaggedObject(0, new DEROctetString(authorityKeyId), false)])),
+  ]
+
+  const tbs = new DERSequence([
+    new DERTaggedObject(0, new DERInteger(TWO)),
+    new DERInteger(serialNumber),
+    new DERSequence([new DERObjectIdentifier(OID_SM2_SM3)]),
+    issuer ? new DERRaw(issuer.subject.hex) : nameToAsn1(subject),
+    new DERSequence([new DERTime(notBefore), new DERTime(notAfter)]),
+    nameToAsn1(subject),
+    new DERRaw(encodeSpki(publicKey)),
+    new DERTaggedObject(3, encodeExtensions(extensions, extra)),
+  ]).getEncodedHex()
+  return toOutput(signTbs(tbs, issuerPrivateKey, issuerPublicKey, userId), 'CERTIFICATE', format)
+}
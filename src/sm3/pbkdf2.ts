@@ -0,0 +1,36 @@
+import { sm3 } from '@/sm2/sm3'
+import { hmac } from '@/sm2/hmac'
+import { CHash, Input, toBytes } from './utils'
+
+/**
+ * PBKDF2 (RFC 8018)，基于 HMAC，hash 默认为 SM3
+ */
+export function pbkdf2Hmac(hash: CHash, password: Input, salt: Input, iterations: number, keyLength: number) {
+  if (!Number.isSafeInteger(iterations) || iterations < 1) throw new Error('iterations should be a positive integer')
+  if (!Number.isSafeInteger(keyLength) || keyLength < 1) throw new Error('keyLength should be a positive integer')
+  const prf = hmac.create(hash, toBytes(password))
+  const saltArr = toBytes(salt)
+  const out = new Uint8Array(keyLength)
+  const counter = new Uint8Array(4)
+  for (let block = 1, pos = 0; pos < keyLength; block++, pos += prf.outputLen) {
+    counter[0] = (block >>> 24) & 0xff
+    counter[1] = (block >>> 16) & 0xff
+    counter[2] = (block >>> 8) & 0xff
+    counter[3] = block & 0xff
+    // U1 = PRF(P, S || INT(i))
+    let u = prf.clone().update(saltArr).update(counter).digest()
+    const t = u.slice()
+    for (let i = 1; i < iterations; i++) {
+      // Uc = PRF(P, Uc-1)，T = U1 ^ U2 ^ ... ^ Uc
+      u = prf.clone().update(u).digest()
+      for (let j = 0; j < t.length; j++) t[j] ^= u[j]
+    }
+    out.set(t.subarray(0, Math.min(t.length, keyLength - pos)), pos)
+  }
+  prf.destroy()
+  return out
+}
+
+export function pbkdf2(password: Input, salt: Input, iterations: number, keyLength: number) {
+  return pbkdf2Hmac(sm3, password, salt, iterations, keyLength)
+}
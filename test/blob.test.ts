@@ -0,0 +1,140 @@
+import { sm2, sm4 } from '@/index'
+import { describe, expect, it } from 'vitest'
+
+const keypair = {
+  privateKey: '50afd2cbed9b7db1d8a6d56cd9f7ee5fbcf2e3b1b5e3ed05c10bc1e51bfc89e0',
+  publicKey: '',
+}
+keypair.publicKey = sm2.getPublicKeyFromPrivateKey(keypair.privateKey)
+const msg = 'hello skf blob'
+
+function hex(bytes: Uint8Array) {
+  return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+describe('skf/sdf blobs: keys', () => {
+  it('public key blob layout', () => {
+    const blob = sm2.encodePublicKeyBlob(keypair.publicKey)
+    expect(blob.length).toBe(132)
+    // BitLen = 256，小端序
+    expect(hex(blob.subarray(0, 4))).toBe('00010000')
+    expect(hex(blob.subarray(4, 36))).toBe('00'.repeat(32))
+    expect(hex(blob.subarray(36, 68))).toBe(keypair.publicKey.substring(2, 66))
+    expect(hex(blob.subarray(68, 100))).toBe('00'.repeat(32))
+    expect(hex(blob.subarray(100))).toBe(keypair.publicKey.substring(66))
+    expect(sm2.decodePublicKeyBlob(blob)).toBe(keypair.publicKey)
+    expect(sm2.decodePublicKeyBlob(hex(blob))).toBe(keypair.publicKey)
+
+    const bigEndian = sm2.encodePublicKeyBlob(keypair.publicKey, { littleEndian: false })
+    expect(hex(bigEndian.subarray(0, 4))).toBe('00000100')
+    expect(sm2.decodePublicKeyBlob(bigEndian, { littleEndian: false })).toBe(keypair.publicKey)
+    expect(() => sm2.decodePublicKeyBlob(bigEndian)).toThrow('unsupported bit length')
+  })
+
+  it('private key blob layout', () => {
+    const blob = sm2.encodePrivateKeyBlob(keypair.privateKey)
+    expect(blob.length).toBe(68)
+    expect(hex(blob)).toBe('00010000' + '00'.repeat(32) + keypair.privateKey)
+    expect(sm2.decodePrivateKeyBlob(blob)).toBe(keypair.privateKey)
+  })
+
+  it('reject malformed key blobs', () => {
+    const blob = sm2.encodePublicKeyBlob(keypair.publicKey)
+    expect(() => sm2.decodePublicKeyBlob(blob.subarray(0, 100))).toThrow('too short')
+    const high = blob.slice()
+    high[4] = 1
+    expect(() => sm2.decodePublicKeyBlob(high)).toThrow('exceeds 256 bits')
+    const offCurve = blob.slice()
+    offCurve[131] ^= 1
+    expect(() => sm2.decodePublicKeyBlob(offCurve)).toThrow('not a point on SM2 curve')
+  })
+})
+
+describe('skf/sdf blobs: cipher and signature', () => {
+  it('convert ciphertext in all formats', () => {
+    for (const cipherMode of [0, 1]) {
+      for (const asn1 of [false, true]) {
+        const ciphertext = sm2.doEncrypt(msg, keypair.publicKey, cipherMode, { asn1 })
+        const blob = sm2.encodeCipherBlob(ciphertext, { cipherMode, asn1 })
+        expect(blob.length).toBe(64 + 64 + 32 + 4 + msg.length)
+        expect(hex(blob.subarray(160, 164))).toBe('0e000000')
+        expect(sm2.doDecrypt(sm2.decodeCipherBlob(blob, { cipherMode, asn1 }), keypair.privateKey, cipherMode, { asn1 })).toBe(msg)
+      }
+    }
+    // C1C3C2 的密文与 blob 一一对应
+    const ciphertext = sm2.doEncrypt(msg, keypair.publicKey)
+    const blob = sm2.encodeCipherBlob(ciphertext)
+    expect(sm2.decodeCipherBlob(blob)).toBe(ciphertext)
+    expect(hex(blob.subarray(32, 64))).toBe(ciphertext.substring(0, 64))
+    expect(hex(blob.subarray(128, 160))).toBe(ciphertext.substring(128, 192))
+    expect(() => sm2.decodeCipherBlob(blob.subarray(0, blob.length - 1))).toThrow('cipher length exceeds blob')
+  })
+
+  it('convert ciphertext with prefixed C1', () => {
+    const expected = sm2.encodeCipherBlob(sm2.doEncrypt(msg, keypair.publicKey))
+    const raw = sm2.decodeCipherBlob(expected)
+    for (const c1Format of ['uncompressed', 'compressed'] as const) {
+      for (const cipherMode of [0, 1]) {
+        const ciphertext = sm2.doEncrypt(msg, keypair.publicKey, cipherMode, { c1Format })
+        const blob = sm2.encodeCipherBlob(ciphertext, { cipherMode, c1Format })
+        expect(blob.length).toBe(64 + 64 + 32 + 4 + msg.length)
+        expect(sm2.decodeCipherBlob(blob, { cipherMode, c1Format })).toBe(ciphertext)
+        expect(sm2.doDecrypt(sm2.decodeCipherBlob(blob, { cipherMode }), keypair.privateKey, cipherMode)).toBe(msg)
+      }
+      const converted = sm2.decodeCipherBlob(expected, { c1Format })
+      expect(sm2.encodeCipherBlob(converted, { c1Format })).toEqual(expected)
+      expect(sm2.doDecrypt(converted, keypair.privateKey, 1, { c1Format })).toBe(msg)
+    }
+    expect(sm2.decodeCipherBlob(expected, { c1Format: 'uncompressed' })).toBe('04' + raw)
+    // 格式与密文不符
+    expect(() => sm2.encodeCipherBlob('04' + raw, { c1Format: 'compressed' })).toThrow('C1 is not a valid point')
+    expect(() => sm2.encodeCipherBlob(raw, { c1Format: 'uncompressed' })).toThrow('C1 is not a valid point')
+  })
+
+  it('convert signature', () => {
+    const signature = sm2.doSignature(msg, keypair.privateKey, { hash: true })
+    const blob = sm2.encodeSignatureBlob(signature)
+    expect(hex(blob)).toBe('00'.repeat(32) + signature.substring(0, 64) + '00'.repeat(32) + signature.substring(64))
+    expect(sm2.decodeSignatureBlob(blob)).toBe(signature)
+
+    const derSignature = sm2.doSignature(msg, keypair.privateKey, { hash: true, der: true })
+    const derBlob = sm2.encodeSignatureBlob(derSignature, { der: true })
+    expect(sm2.decodeSignatureBlob(derBlob, { der: true })).toBe(derSignature)
+    expect(sm2.doVerifySignature(msg, sm2.decodeSignatureBlob(derBlob), keypair.publicKey, { hash: true })).toBe(true)
+  })
+})
+
+describe('skf/sdf blobs: enveloped key', () => {
+  it('wrap and unwrap encryption key pair', () => {
+    const signKeypair = sm2.generateKeyPairHex()
+    const blob = sm2.encodeEnvelopedKeyBlob(keypair, signKeypair.publicKey)
+    expect(blob.length).toBe(12 + 64 + 132 + 164 + 16)
+    const envelope = sm2.decodeEnvelopedKeyBlob(blob)
+    expect(envelope.version).toBe(1)
+    expect(envelope.symmAlgId).toBe(sm2.SGD_SM4_ECB)
+    expect(envelope.bits).toBe(256)
+    expect(envelope.publicKey).toBe(keypair.publicKey)
+    expect(sm2.openEnvelopedKeyBlob(blob, signKeypair.privateKey)).toEqual(keypair)
+    expect(() => sm2.openEnvelopedKeyBlob(blob, sm2.generateKeyPairHex().privateKey)).toThrow('failed to decrypt enveloped key blob')
+  })
+
+  it('accept private key encrypted into the first 32 bytes', () => {
+    const signKeypair = sm2.generateKeyPairHex()
+    const key = '0123456789abcdeffedcba9876543210'
+    const encrypted = sm2.doEncrypt(fromHex(key), signKeypair.publicKey)
+    const head = new Uint8Array(12)
+    new DataView(head.buffer).setUint32(0, 1, true)
+    new DataView(head.buffer).setUint32(4, 0x401, true)
+    new DataView(head.buffer).setUint32(8, 256, true)
+    const encryptedPrivateKey = new Uint8Array(64)
+    encryptedPrivateKey.set(sm4.encrypt(fromHex(keypair.privateKey), key, { padding: 'none', output: 'array' }))
+    const blob = new Uint8Array([
+      ...head, ...encryptedPrivateKey, ...sm2.encodePublicKeyBlob(keypair.publicKey), ...sm2.encodeCipherBlob(encrypted),
+    ])
+    expect(sm2.openEnvelopedKeyBlob(blob, signKeypair.privateKey)).toEqual(keypair)
+  })
+})
+
+function fromHex(hexStr: string) {
+  return Uint8Array.from(hexStr.match(/../g)!.map(byte => parseInt(byte, 16)))
+}
@@ -0,0 +1,134 @@
+import { sm2, sm3 } from '@/index'
+import { describe, expect, it } from 'vitest'
+import { utf8ToArray } from '@/sm3'
+import { arrayToUtf8, hexToArray } from '@/sm2/utils'
+import { bytesToHex } from '@/sm3/utils'
+
+const keypair = sm2.generateKeyPairHex()
+const certificatePem = sm2.createCertificate({
+  subject: { C: 'CN', O: 'Test', CN: 'Signer' },
+  publicKey: keypair.publicKey,
+  issuerPrivateKey: keypair.privateKey,
+  serialNumber: '1001',
+})
+const content = 'hello pkcs#7 签名'
+
+describe('cms: signed data', () => {
+  it('create and verify attached signed data', () => {
+    const signingTime = new Date(Date.UTC(2030, 0, 1))
+    const pem = sm2.createSignedData(content, { certificate: certificatePem, privateKey: keypair.privateKey, signingTime })
+    expect(pem.startsWith('-----BEGIN PKCS7-----')).toBe(true)
+
+    const signedData = sm2.parseSignedData(pem)
+    expect(signedData.contentType).toBe('1.2.156.10197.6.1.4.2.1')
+    expect(arrayToUtf8(signedData.content!)).toBe(content)
+    expect(signedData.certificates.length).toBe(1)
+    const [signer] = signedData.signers
+    expect(signer.serialNumber).toBe('1001')
+    expect(signer.digestAlgorithm).toBe('1.2.156.10197.1.401')
+    expect(signer.signatureAlgorithm).toBe('1.2.156.10197.1.301.1')
+    expect(signer.contentType).toBe('1.2.156.10197.6.1.4.2.1')
+    expect(signer.messageDigest).toBe(sm3(content))
+    expect(signer.signingTime).toEqual(signingTime)
+
+    expect(sm2.verifySignedData(pem)).toBe(true)
+    expect(sm2.verifySignedData(signedData, { userId: 'another id' })).toBe(false)
+  })
+
+  it('create and verify detached signed data', () => {
+    const der = sm2.createSignedData(utf8ToArray(content), {
+      certificate: certificatePem, privateKey: keypair.privateKey, detached: true, includeCertificate: false, format: 'der',
+    })
+    const signedData = sm2.parseSignedData(der)
+    expect(signedData.content).toBeUndefined()
+    expect(signedData.certificates.length).toBe(0)
+    expect(() => sm2.verifySignedData(der, { certificates: [certificatePem] })).toThrow('content is required')
+    expect(sm2.verifySignedData(der, { content, certificates: [certificatePem] })).toBe(true)
+    expect(sm2.verifySignedData(der, { content: content + '!', certificates: [certificatePem] })).toBe(false)
+    // 找不到签名者证书
+    expect(sm2.verifySignedData(der, { content })).toBe(false)
+  })
+
+  it('signed data without signed attributes', () => {
+    const pem = sm2.createSignedData(content, { certificate: certificatePem, privateKey: keypair.privateKey, signedAttributes: false })
+    const signedData = sm2.parseSignedData(pem)
+    expect(signedData.signers[0].signedAttributes).toBeUndefined()
+    expect(sm2.verifySignedData(signedData)).toBe(true)
+    expect(sm2.verifySignedData(signedData, { content: 'tampered' })).toBe(false)
+  })
+
+  it('reject wrong key or malformed input', () => {
+    expect(() => sm2.createSignedData(content, {
+      certificate: certificatePem, privateKey: sm2.generateKeyPairHex().privateKey,
+    })).toThrow('private key does not match certificate')
+    expect(() => sm2.parseSignedData('300d06092a864886f70d010701a000')).toThrow('invalid signed data')
+  })
+})
+
+describe('cms: enveloped data', () => {
+  const recipientKey = sm2.generateKeyPairHex()
+  const recipientPem = sm2.createCertificate({
+    subject: { CN: 'Recipient' },
+    publicKey: recipientKey.publicKey,
+    issuerPrivateKey: keypair.privateKey,
+    issuer: certificatePem,
+    serialNumber: '2002',
+  })
+
+  it('envelope with sm4-cbc for multiple recipients', () => {
+    const pem = sm2.createEnvelopedData(content, { recipients: [certificatePem, recipientPem] })
+    const envelopedData = sm2.parseEnvelopedData(pem)
+    expect(envelopedData.version).toBe(0)
+    expect(envelopedData.contentType).toBe('1.2.156.10197.6.1.4.2.1')
+    expect(envelopedData.contentEncryptionAlgorithm).toBe('1.2.156.10197.1.104.2')
+    expect(envelopedData.iv.length).toBe(32)
+    expect(envelopedData.recipients.map(item => item.serialNumber).sort()).toEqual(['1001', '2002'])
+    expect(envelopedData.recipients[0].keyEncryptionAlgorithm).toBe('1.2.156.10197.1.301.3')
+
+    expect(arrayToUtf8(sm2.openEnvelopedData(pem, { certificate: certificatePem, privateKey: keypair.privateKey }))).toBe(content)
+    expect(arrayToUtf8(sm2.openEnvelopedData(envelopedData, { certificate: recipientPem, privateKey: recipientKey.privateKey }))).toBe(content)
+  })
+
+  it('envelope with sm4-gcm and subject key identifier', () => {
+    const data = utf8ToArray(content)
+    const der = sm2.createEnvelopedData(data, {
+      recipients: [recipientPem], algorithm: 'sm4-gcm', recipientIdentifier: 'subjectKeyIdentifier', format: 'der',
+    })
+    const envelopedData = sm2.parseEnvelopedData(der)
+    expect(envelopedData.version).toBe(2)
+    expect(envelopedData.contentEncryptionAlgorithm).toBe('1.2.156.10197.1.104.8')
+    expect(envelopedData.iv.length).toBe(24)
+    expect(envelopedData.encryptedContent.length).toBe(data.length + 16)
+    expect(envelopedData.recipients[0].subjectKeyIdentifier).toBe(sm2.parseCertificate(recipientPem).subjectKeyIdentifier)
+    expect(sm2.openEnvelopedData(der, { certificate: recipientPem, privateKey: recipientKey.privateKey })).toEqual(data)
+
+    // 篡改密文
+    const tampered = { ...envelopedData, encryptedContent: envelopedData.encryptedContent.slice() }
+    tampered.encryptedContent[0] ^= 1
+    expect(() => sm2.openEnvelopedData(tampered, { certificate: recipientPem, privateKey: recipientKey.privateKey })).toThrow('failed to decrypt content')
+  })
+
+  it('check the GCM tag length', () => {
+    const der = sm2.createEnvelopedData(content, { recipients: [recipientPem], algorithm: 'sm4-gcm', format: 'der' })
+    const envelopedData = sm2.parseEnvelopedData(der)
+    expect(envelopedData.tagLength).toBe(16)
+    // GCMParameters 中 nonce 之后的 ICVlen
+    const hex = bytesToHex(der)
+    const icvLength = '040c' + envelopedData.iv + '0201'
+    expect(hex).toContain(icvLength + '10')
+    const short = sm2.parseEnvelopedData(hexToArray(hex.replace(icvLength + '10', icvLength + '0c')))
+    expect(short.tagLength).toBe(12)
+    const options = { certificate: recipientPem, privateKey: recipientKey.privateKey }
+    expect(() => sm2.openEnvelopedData(short, options)).toThrow('unsupported GCM tag length: 12')
+    expect(() => sm2.openEnvelopedData({ ...envelopedData, tagLength: 8 }, options)).toThrow('unsupported GCM tag length: 8')
+    expect(() => sm2.parseEnvelopedData(hexToArray(hex.replace(icvLength + '10', '040c' + envelopedData.iv + '0401' + '10')))).toThrow('bad gcm parameters')
+  })
+
+  it('reject unknown recipient or wrong key', () => {
+    const pem = sm2.createEnvelopedData(content, { recipients: [recipientPem] })
+    expect(() => sm2.openEnvelopedData(pem, { certificate: certificatePem, privateKey: keypair.privateKey })).toThrow('no recipient matches')
+    expect(() => sm2.openEnvelopedData(pem, { certificate: recipientPem, privateKey: keypair.privateKey })).toThrow('failed to decrypt content encryption key')
+    expect(() => sm2.createEnvelopedData(content, { recipients: [] })).toThrow('at least one recipient')
+    expect(() => sm2.parseEnvelopedData(sm2.createSignedData(content, { certificate: certificatePem, privateKey: keypair.privateKey }))).toThrow('invalid enveloped data')
+  })
+})
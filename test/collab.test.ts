@@ -0,0 +1,110 @@
+import { sm2 } from '@/index'
+import { field } from '@/sm2/ec'
+import { leftPad } from '@/sm2/utils'
+import * as utils from '@noble/curves/abstract/utils'
+import { describe, expect, it } from 'vitest'
+
+const clientShare = sm2.generateKeyShare()
+const serverShare = sm2.generateKeyShare()
+const publicKey = sm2.combinePublicKey(clientShare.privateKey, serverShare.publicKey)
+const msg = 'collaborative 协同签名'
+
+function sign(options: { hash?: boolean, userId?: string, der?: boolean } = {}, message: string | Uint8Array = msg) {
+  const client = new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey, publicKey, ...options })
+  const server = new sm2.SM2CollaborativeSign('server', { privateKeyShare: serverShare.privateKey })
+  // 消息均为 16 进制串，经过 JSON 序列化传输
+  const request = JSON.parse(JSON.stringify(client.start(message)))
+  const response = JSON.parse(JSON.stringify(server.respond(request)))
+  return client.finish(response)
+}
+
+describe('collaborative key shares', () => {
+  it('both parties derive the same public key', () => {
+    expect(sm2.combinePublicKey(serverShare.privateKey, clientShare.publicKey)).toBe(publicKey)
+    // d = (d1 * d2)^-1 - 1
+    const d = field.sub(field.inv(field.mul(utils.hexToNumber(clientShare.privateKey), utils.hexToNumber(serverShare.privateKey))), BigInt(1))
+    expect(sm2.getPublicKeyFromPrivateKey(leftPad(utils.numberToHexUnpadded(d), 64))).toBe(publicKey)
+  })
+
+  it('reject invalid shares', () => {
+    expect(() => sm2.combinePublicKey(clientShare.privateKey, '04' + '00'.repeat(64))).toThrow('invalid public key share')
+    expect(() => sm2.combinePublicKey('00', serverShare.publicKey)).toThrow('invalid private key share')
+  })
+})
+
+describe('collaborative signature', () => {
+  it('signature passes doVerifySignature', () => {
+    // 不做杂凑时原文即为 e
+    const digest = sm2.hexToArray(sm2.getHash(sm2.utf8ToHex(msg), publicKey))
+    expect(sm2.doVerifySignature(digest, sign({}, digest), publicKey)).toBe(true)
+    expect(sm2.doVerifySignature(msg, sign({ hash: true }), publicKey, { hash: true })).toBe(true)
+    expect(sm2.doVerifySignature(msg, sign({ hash: true, userId: 'alice', der: true }), publicKey, { hash: true, userId: 'alice', der: true })).toBe(true)
+  })
+
+  it('detect wrong server share', () => {
+    const client = new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey, publicKey, hash: true })
+    const server = new sm2.SM2CollaborativeSign('server', { privateKeyShare: sm2.generateKeyShare().privateKey })
+    const response = server.respond(client.start(msg))
+    expect(() => client.finish(response)).toThrow('collaborative signature verification failed')
+  })
+
+  it('server only signs a 32-byte digest', () => {
+    const client = new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey, publicKey })
+    expect(() => client.start(msg)).toThrow('msg should be a 32-byte digest when hash is false')
+    const q1 = sm2.generateKeyPairHex().publicKey
+    // 过短、过长（大于 n）、非 16 进制
+    for (const e of ['01', 'ff'.repeat(33), 'zz'.repeat(32), '']) {
+      const server = new sm2.SM2CollaborativeSign('server', { privateKeyShare: serverShare.privateKey })
+      expect(() => server.respond({ q1, e })).toThrow('invalid e')
+    }
+  })
+
+  it('enforce roles and order', () => {
+    const client = new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey, publicKey, hash: true })
+    const server = new sm2.SM2CollaborativeSign('server', { privateKeyShare: serverShare.privateKey })
+    expect(() => client.respond({ q1: '', e: '' })).toThrow('can only be called by the server')
+    expect(() => client.finish({ r: '01', s2: '01', s3: '01' })).toThrow('called out of order')
+    const request = client.start(msg)
+    expect(() => client.start(msg)).toThrow('called out of order')
+    expect(() => server.respond({ ...request, q1: '04' + '11'.repeat(64) })).toThrow('invalid Q1')
+    expect(() => server.respond(request)).toThrow('called out of order')
+    expect(() => new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey })).toThrow('publicKey is required')
+  })
+})
+
+describe('collaborative decryption', () => {
+  it('decrypt C1C3C2, C1C2C3 and ASN.1 ciphertexts', () => {
+    for (const cipherMode of [1, 0]) {
+      for (const asn1 of [false, true]) {
+        const encryptData = sm2.doEncrypt(msg, publicKey, cipherMode, { asn1 })
+        const client = new sm2.SM2CollaborativeDecrypt('client', { privateKeyShare: clientShare.privateKey, cipherMode, asn1 })
+        const server = new sm2.SM2CollaborativeDecrypt('server', { privateKeyShare: serverShare.privateKey })
+        const response = server.respond(JSON.parse(JSON.stringify(client.start(encryptData))))
+        expect(client.finish(JSON.parse(JSON.stringify(response)))).toBe(msg)
+      }
+    }
+  })
+
+  it('output array and fail like doDecrypt', () => {
+    const encryptData = sm2.doEncrypt(msg, publicKey)
+    const run = (data: string, serverKeyShare = serverShare.privateKey) => {
+      const client = new sm2.SM2CollaborativeDecrypt('client', { privateKeyShare: clientShare.privateKey })
+      const server = new sm2.SM2CollaborativeDecrypt('server', { privateKeyShare: serverKeyShare })
+      return client.finish(server.respond(client.start(data)), { output: 'array' })
+    }
+    expect(run(encryptData)).toEqual(sm2.hexToArray(sm2.utf8ToHex(msg)))
+    // 篡改 C3 或服务端分量错误时返回空值
+    const tampered = encryptData.substring(0, 128) + (encryptData[128] === '0' ? '1' : '0') + encryptData.substring(129)
+    expect(run(tampered)).toEqual([])
+    expect(run(encryptData, sm2.generateKeyShare().privateKey)).toEqual([])
+  })
+
+  it('enforce roles and order', () => {
+    const client = new sm2.SM2CollaborativeDecrypt('client', { privateKeyShare: clientShare.privateKey })
+    const server = new sm2.SM2CollaborativeDecrypt('server', { privateKeyShare: serverShare.privateKey })
+    expect(() => server.start(sm2.doEncrypt(msg, publicKey))).toThrow('can only be called by the client')
+    expect(() => client.finish({ t2: '' })).toThrow('called out of order')
+    expect(() => server.respond({ t1: '04' + '11'.repeat(64) })).toThrow('invalid T1')
+    expect(() => server.respond({ t1: clientShare.publicKey })).toThrow('called out of order')
+  })
+})
@@ -0,0 +1,109 @@
+import { sm2 } from '@/index'
+import { arrayToHex, hexToArray } from '@/sm2'
+import { afterEach, describe, expect, it } from 'vitest'
+
+const toHex = (bytes: Uint8Array) => arrayToHex(Array.from(bytes))
+
+// 依次返回熵输入、nonce 以及重播种的熵输入：start 起 32、16、32 字节的递增序列
+function fixedEntropy(start = 0) {
+    const entropy = Uint8Array.from({ length: 80 }, (_, i) => start + i)
+    let offset = 0
+    return (length: number) => {
+        const result = entropy.slice(offset, offset + length)
+        offset += length
+        return result
+    }
+}
+
+// 已知答案由 OpenSSL 3.0.17 的 EVP_RAND 生成：HASH-DRBG（digest=SM3）和 CTR-DRBG（cipher=SM4-CTR，使用派生函数），
+// 以 TEST-RAND 为上级提供相同的熵输入和 nonce
+// 流程：实例化，generate(40)，generate(20, additional[0])，reseed(additional[1])，generate(16, additional[2])
+const inputs = [
+    { start: 0, personalization: 'personalization', additional: ['additional', 'reseed', undefined] },
+    { start: 0x80, personalization: undefined, additional: ['additional', undefined, 'after reseed'] },
+]
+
+const vectors = [
+    {
+        name: 'SM3HashDRBG',
+        create: (options: sm2.DrbgOptions) => new sm2.SM3HashDRBG(options),
+        outputs: [
+            [
+                '4ea563b95851e9340545b90202f857e476a33a64b56a775e3048bd6c139535a5ef09651533eb1a55',
+                'f0f670f3e0f6f5c7983ee17cecccac2feef09496',
+                'fa1821f547f7cf0106aeaa5ddd612bca',
+            ],
+            [
+                '2b908d6f174efc8777249b8a3f13c8b9233aecce25c7aaad5ab6de9ae59fdcebf4eef87a996d301e',
+                '79be92febe155255c87f7f827c59437741755ea2',
+                'a30fb5d8077ab210dd4532eceb233a4c',
+            ],
+        ],
+    },
+    {
+        name: 'SM4CtrDRBG',
+        create: (options: sm2.DrbgOptions) => new sm2.SM4CtrDRBG(options),
+        outputs: [
+            [
+                '70d46f0fded893cfe503da9bd09e0fe68f8f7beb4552f4c764e7f2c146398b68fccc4be781647740',
+                'c68d70d31872ff387b456605158815c5b4b9f1bb',
+                'ebac8a34e5aa55ec248be9fd1761c528',
+            ],
+            [
+                '2d99efb01bb1cc0b242f70fff84289f5dae62e3deea6fb61c2840137c400c9181a6e1cc2cacfa940',
+                '548dd7626343d26aaac294caddc876339d13b688',
+                '5e722da9d793765a602a03fbca54e062',
+            ],
+        ],
+    },
+]
+
+describe('drbg', () => {
+    afterEach(() => sm2.setRandomSource(null))
+
+    for (const { name, create, outputs } of vectors) {
+        it(`${name}: known answers`, () => {
+            inputs.forEach(({ start, personalization, additional }, i) => {
+                const drbg = create({ entropySource: fixedEntropy(start), personalization })
+                expect(drbg.reseedCounter).toBe(1)
+                expect(toHex(drbg.generate(40))).toBe(outputs[i][0])
+                expect(toHex(drbg.generate(20, additional[0]))).toBe(outputs[i][1])
+                expect(drbg.reseedCounter).toBe(3)
+                drbg.reseed(additional[1])
+                expect(drbg.reseedCounter).toBe(1)
+                expect(toHex(drbg.generate(16, additional[2]))).toBe(outputs[i][2])
+            })
+        })
+
+        it(`${name}: reseed automatically`, () => {
+            let calls = 0
+            const drbg = create({
+                reseedInterval: 2,
+                entropySource: (length) => {
+                    calls++
+                    return new Uint8Array(length).fill(calls)
+                },
+            })
+            // 实例化需要熵输入和 nonce
+            expect(calls).toBe(2)
+            drbg.generate(32)
+            drbg.generate(32)
+            expect(calls).toBe(2)
+            drbg.generate(32)
+            expect(calls).toBe(3)
+            expect(drbg.reseedCounter).toBe(2)
+            expect(drbg.generate(0).length).toBe(0)
+            expect(() => drbg.generate(65537)).toThrow('invalid DRBG request length')
+        })
+
+        it(`${name}: library-wide random source`, () => {
+            const drbg = create({ personalization: hexToArray('0102') })
+            sm2.setRandomSource(drbg)
+            const keypair = sm2.generateKeyPairHex()
+            const signature = sm2.doSignature('msg', keypair.privateKey, { hash: true })
+            expect(sm2.doVerifySignature('msg', signature, keypair.publicKey, { hash: true })).toBe(true)
+            expect(sm2.doDecrypt(sm2.doEncrypt('msg', keypair.publicKey), keypair.privateKey)).toBe('msg')
+            expect(drbg.reseedCounter > 1).toBe(true)
+        })
+    }
+})
@@ -0,0 +1,93 @@
+import { sm2 } from '@/index'
+import { describe, expect, it } from 'vitest'
+import { utf8ToArray } from '@/sm3'
+import { bytesToHex } from '@/sm3/utils'
+import { concatKdf } from '@/sm2/jwe'
+import { base64urlToBytes, bytesToBase64url } from '@/sm2/pem'
+import { arrayToUtf8 } from '@/sm2/utils'
+
+const keypair = sm2.generateKeyPairHex()
+const sharedKey = '0123456789abcdeffedcba9876543210'
+const plaintext = 'hello jwe 加密'
+
+function decodeHeader(jwe: string) {
+  return JSON.parse(arrayToUtf8(base64urlToBytes(jwe.split('.')[0])))
+}
+
+describe('jwe', () => {
+  it('concat kdf with sm3', () => {
+    const z = Uint8Array.from({ length: 32 }, (_, i) => i)
+    expect(bytesToHex(concatKdf(z, 16, 'SM4GCM', utf8ToArray('Alice'), utf8ToArray('Bob')))).toBe('ec92c71da4fb7c593d1a2da0fe506fc1')
+    // 超过一个杂凑长度时按计数器拼接
+    expect(bytesToHex(concatKdf(z, 48, 'SM4GCM'))).toBe('bd5d46c1e8ae027b29b475d61d71ab4f18ec6fa225d56c4f72ab19f6cfd277a2b08e8f40f0285b3c13cfea1031508f33')
+  })
+
+  it('encrypt and decrypt with ECDH-ES', () => {
+    const jwe = sm2.encryptJwe(plaintext, { publicKey: keypair.publicKey }, { header: { kid: 'key-1' }, apu: 'Alice', apv: 'Bob' })
+    const parts = jwe.split('.')
+    expect(parts.length).toBe(5)
+    expect(parts[1]).toBe('')
+    expect(base64urlToBytes(parts[2]).length).toBe(12)
+    expect(base64urlToBytes(parts[4]).length).toBe(16)
+
+    const header = decodeHeader(jwe)
+    expect(header.alg).toBe('ECDH-ES')
+    expect(header.enc).toBe('SM4GCM')
+    expect(header.kid).toBe('key-1')
+    expect(header.epk.kty).toBe('EC')
+    expect(header.epk.crv).toBe('SM2')
+    expect(header.apu).toBe(bytesToBase64url(utf8ToArray('Alice')))
+
+    const result = sm2.decryptJwe(jwe, { privateKey: keypair.privateKey })
+    expect(arrayToUtf8(result.plaintext)).toBe(plaintext)
+    expect(result.protectedHeader.kid).toBe('key-1')
+
+    expect(() => sm2.decryptJwe(jwe, { privateKey: sm2.generateKeyPairHex().privateKey })).toThrow('JWE decryption failed')
+    expect(() => sm2.decryptJwe(jwe, { key: sharedKey })).toThrow('requires a private key')
+  })
+
+  it('encrypt and decrypt with direct key', () => {
+    const data = utf8ToArray(plaintext)
+    const jwe = sm2.encryptJwe(data, { key: sharedKey })
+    expect(decodeHeader(jwe)).toEqual({ alg: 'dir', enc: 'SM4GCM' })
+    expect(sm2.decryptJwe(jwe, { key: sharedKey }).plaintext).toEqual(data)
+    expect(() => sm2.decryptJwe(jwe, { key: 'fedcba98765432100123456789abcdef' })).toThrow('JWE decryption failed')
+    expect(() => sm2.decryptJwe(jwe, { privateKey: keypair.privateKey })).toThrow('requires a shared key')
+    expect(() => sm2.decryptJwe(jwe, { key: sharedKey }, { algorithms: ['ECDH-ES'] })).toThrow('unsupported JWE algorithm')
+    expect(() => sm2.encryptJwe(data, { key: '0123' })).toThrow('128-bit key')
+  })
+
+  it('header cannot override alg, enc or key agreement parameters', () => {
+    const recipient = { publicKey: keypair.publicKey }
+    expect(() => sm2.encryptJwe(plaintext, recipient, { header: { alg: 'dir' } })).toThrow('header.alg conflicts')
+    expect(() => sm2.encryptJwe(plaintext, { key: sharedKey }, { header: { enc: 'A128GCM' } })).toThrow('header.enc conflicts')
+    expect(() => sm2.encryptJwe(plaintext, recipient, { header: { apu: 'QWxpY2U' } })).toThrow('header.apu conflicts')
+    expect(() => sm2.encryptJwe(plaintext, recipient, { header: { epk: sm2.exportPublicKeyJwk(keypair.publicKey) } })).toThrow('header.epk conflicts')
+    // 与实际使用的值一致时允许
+    const jwe = sm2.encryptJwe(plaintext, { key: sharedKey }, { header: { alg: 'dir', enc: 'SM4GCM', kid: 'key-1' } })
+    expect(decodeHeader(jwe)).toEqual({ alg: 'dir', enc: 'SM4GCM', kid: 'key-1' })
+  })
+
+  it('reject tampered or malformed JWE', () => {
+    const jwe = sm2.encryptJwe(plaintext, { publicKey: keypair.publicKey })
+    const [protectedPart, encryptedKey, iv, ciphertext, tag] = jwe.split('.')
+    const key = { privateKey: keypair.privateKey }
+
+    // 篡改头部会导致认证失败
+    const header = decodeHeader(jwe)
+    const modified = bytesToBase64url(utf8ToArray(JSON.stringify({ ...header, kid: 'other' })))
+    expect(() => sm2.decryptJwe([modified, encryptedKey, iv, ciphertext, tag].join('.'), key)).toThrow('JWE decryption failed')
+    const flipped = base64urlToBytes(ciphertext)
+    flipped[0] ^= 1
+    expect(() => sm2.decryptJwe([protectedPart, encryptedKey, iv, bytesToBase64url(flipped), tag].join('.'), key)).toThrow('JWE decryption failed')
+
+    const withHeader = (value: object) => [bytesToBase64url(utf8ToArray(JSON.stringify({ ...header, ...value }))), encryptedKey, iv, ciphertext, tag].join('.')
+    expect(() => sm2.decryptJwe(withHeader({ enc: 'A128GCM' }), key)).toThrow('unsupported JWE encryption')
+    expect(() => sm2.decryptJwe(withHeader({ crit: ['exp'] }), key)).toThrow('critical header')
+    expect(() => sm2.decryptJwe(withHeader({ zip: 'DEF' }), key)).toThrow('compression')
+    expect(() => sm2.decryptJwe(withHeader({ epk: { ...header.epk, y: header.epk.x } }), key)).toThrow('invalid JWK')
+    expect(() => sm2.decryptJwe([protectedPart, 'AAAA', iv, ciphertext, tag].join('.'), key)).toThrow('encrypted key should be empty')
+    expect(() => sm2.decryptJwe([protectedPart, encryptedKey, iv, ciphertext].join('.'), key)).toThrow('five parts')
+    expect(() => sm2.decryptJwe([protectedPart, encryptedKey, 'AAAA', ciphertext, tag].join('.'), key)).toThrow('iv should be 12 bytes')
+  })
+})
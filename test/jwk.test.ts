@@ -0,0 +1,59 @@
+import { sm2 } from '@/index'
+import { describe, expect, it } from 'vitest'
+
+const privateKey = '50afd2cbeb8c76a8ca1128f51eee46b42ec99b4e8623092eec75e5a7e1d189e0'
+const publicKey = '0491addbcb97d8a155065a95b70ee855977e8b17cee999f76448ef9a50ee7d0b73465a0f0b505b73d0ce9d871007732bc82b041d8f7b270dd7a2faeb2a010184d1'
+const jwk = {
+  kty: 'EC' as const,
+  crv: 'SM2' as const,
+  x: 'ka3by5fYoVUGWpW3DuhVl36LF87pmfdkSO-aUO59C3M',
+  y: 'RloPC1Bbc9DOnYcQB3MryCsEHY97Jw3XovrrKgEBhNE',
+}
+const d = 'UK_Sy-uMdqjKESj1Hu5GtC7Jm06GIwku7HXlp-HRieA'
+
+describe('jwk: export', () => {
+  it('export public key', () => {
+    expect(sm2.exportPublicKeyJwk(publicKey)).toEqual(jwk)
+    expect(sm2.exportPublicKeyJwk(sm2.compressPublicKeyHex(publicKey))).toEqual(jwk)
+    expect(sm2.exportPublicKeyJwk(sm2.precomputePublicKey(publicKey))).toEqual(jwk)
+    expect(sm2.exportPublicKeyJwk(publicKey, { kid: 'key-1', use: 'sig' })).toEqual({ ...jwk, kid: 'key-1', use: 'sig' })
+    expect(() => sm2.exportPublicKeyJwk('04' + '00'.repeat(64))).toThrow('not a point on SM2 curve')
+  })
+
+  it('export private key', () => {
+    expect(sm2.exportPrivateKeyJwk(privateKey)).toEqual({ ...jwk, d })
+    expect(sm2.exportPrivateKeyJwk(privateKey, { publicKey, alg: 'SM2SM3' })).toEqual({ ...jwk, d, alg: 'SM2SM3' })
+    // 私钥不足 32 字节时补齐
+    const short = sm2.exportPrivateKeyJwk('01')
+    expect(short.d).toBe('AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAE')
+  })
+})
+
+describe('jwk: import', () => {
+  it('import public and private key', () => {
+    expect(sm2.importPublicKeyJwk(jwk)).toBe(publicKey)
+    expect(sm2.importPrivateKeyJwk({ ...jwk, d })).toEqual({ privateKey, publicKey })
+    const keypair = sm2.generateKeyPairHex()
+    expect(sm2.importPrivateKeyJwk(sm2.exportPrivateKeyJwk(keypair.privateKey))).toEqual(keypair)
+  })
+
+  it('reject malformed jwk', () => {
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, kty: 'OKP' } as any)).toThrow('kty should be EC')
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, crv: 'P-256' } as any)).toThrow('crv should be SM2')
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, x: undefined } as any)).toThrow('missing x')
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, x: jwk.x + '=' })).toThrow('x is not base64url')
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, x: jwk.x.substring(4) })).toThrow('x should be 32 bytes')
+    expect(() => sm2.importPublicKeyJwk({ ...jwk, y: jwk.x })).toThrow('not a point on SM2 curve')
+    expect(() => sm2.importPrivateKeyJwk(jwk)).toThrow('missing d')
+    expect(() => sm2.importPrivateKeyJwk({ ...jwk, d: 'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' })).toThrow('d out of range')
+    expect(() => sm2.importPrivateKeyJwk({ ...jwk, d: sm2.exportPrivateKeyJwk(sm2.generateKeyPairHex().privateKey).d })).toThrow('d does not match')
+  })
+})
+
+describe('jwk: thumbprint', () => {
+  it('compute rfc 7638 thumbprint', () => {
+    expect(sm2.jwkThumbprint(jwk)).toBe('pg6I6O0umcwolwTF3eyE5r7-HFqd36wHDTJb3J4f6JU')
+    expect(sm2.jwkThumbprint({ ...jwk, d, kid: 'ignored' })).toBe('pg6I6O0umcwolwTF3eyE5r7-HFqd36wHDTJb3J4f6JU')
+    expect(sm2.jwkThumbprint(jwk, 'sm3')).toBe('2Cm8IVTYm9LMUmfFsYQ-S3aMt5RulgEZnOIwBZGkISI')
+  })
+})
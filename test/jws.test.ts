@@ -0,0 +1,122 @@
+import { sm2 } from '@/index'
+import { describe, expect, it } from 'vitest'
+import { utf8ToArray } from '@/sm3'
+import { arrayToUtf8 } from '@/sm2/utils'
+import { base64urlToBytes } from '@/sm2/pem'
+
+const keypair = sm2.generateKeyPairHex()
+const another = sm2.generateKeyPairHex()
+
+function decodePart(part: string) {
+  return JSON.parse(arrayToUtf8(base64urlToBytes(part)))
+}
+
+describe('jws: compact serialization', () => {
+  it('sign and verify', () => {
+    const jws = sm2.signJws('hello jws', keypair.privateKey, { header: { kid: 'key-1' } })
+    const [header, payload, signature] = jws.split('.')
+    expect(decodePart(header)).toEqual({ alg: 'SM2SM3', kid: 'key-1' })
+    expect(payload).toBe('aGVsbG8gandz')
+    expect(signature.length).toBe(86)
+
+    const result = sm2.verifyJws(jws, keypair.publicKey)
+    expect(result.protectedHeader).toEqual({ alg: 'SM2SM3', kid: 'key-1' })
+    expect(arrayToUtf8(result.payload)).toBe('hello jws')
+    expect(sm2.verifyJws(jws, sm2.precomputePublicKey(keypair.publicKey)).protectedHeader.kid).toBe('key-1')
+  })
+
+  it('signature is raw r || s over the signing input', () => {
+    const jws = sm2.signJws(utf8ToArray('payload'), keypair.privateKey, { alg: 'SM2' })
+    const [header, payload, signature] = jws.split('.')
+    const hex = Array.from(base64urlToBytes(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+    expect(sm2.doVerifySignature(`${header}.${payload}`, hex, keypair.publicKey, { hash: true, userId: '1234567812345678' })).toBe(true)
+    expect(sm2.verifyJws(jws, keypair.publicKey, { algorithms: ['SM2'] }).protectedHeader.alg).toBe('SM2')
+  })
+
+  it('header cannot override alg', () => {
+    expect(() => sm2.signJws('hello', keypair.privateKey, { header: { alg: 'ES256' } })).toThrow('header.alg ES256 conflicts with the signing algorithm SM2SM3')
+    expect(() => sm2.signJwsJson('hello', [{ privateKey: keypair.privateKey, alg: 'SM2', header: { alg: 'SM2SM3' } }])).toThrow('conflicts with the signing algorithm')
+    const jws = sm2.signJws('hello', keypair.privateKey, { alg: 'SM2', header: { alg: 'SM2', kid: 'key-1' } })
+    expect(decodePart(jws.split('.')[0])).toEqual({ alg: 'SM2', kid: 'key-1' })
+  })
+
+  it('user id and hashing must match', () => {
+    const jws = sm2.signJws('hello', keypair.privateKey, { userId: 'alice@example.com' })
+    expect(() => sm2.verifyJws(jws, keypair.publicKey)).toThrow('JWS signature verification failed')
+    expect(sm2.verifyJws(jws, keypair.publicKey, { userId: 'alice@example.com' }).payload.length).toBe(5)
+
+    const raw = sm2.signJws('hello', keypair.privateKey, { hash: false })
+    expect(() => sm2.verifyJws(raw, keypair.publicKey)).toThrow('JWS signature verification failed')
+    expect(sm2.verifyJws(raw, keypair.publicKey, { hash: false }).payload.length).toBe(5)
+  })
+
+  it('reject invalid jws', () => {
+    const jws = sm2.signJws('hello', keypair.privateKey)
+    const [header, payload, signature] = jws.split('.')
+    expect(() => sm2.verifyJws(jws, another.publicKey)).toThrow('JWS signature verification failed')
+    expect(() => sm2.verifyJws(`${header}.aGVsbG8h.${signature}`, keypair.publicKey)).toThrow('JWS signature verification failed')
+    expect(() => sm2.verifyJws(jws, keypair.publicKey, { algorithms: ['ES256'] })).toThrow('unsupported JWS algorithm: SM2SM3')
+    expect(() => sm2.verifyJws(`${header}.${payload}`, keypair.publicKey)).toThrow('expected three parts')
+    expect(() => sm2.verifyJws(`${header}.${payload}.${signature.substring(4)}`, keypair.publicKey)).toThrow('signature should be 64 bytes')
+    expect(() => sm2.verifyJws(`e30.${payload}.${signature}`, keypair.publicKey)).toThrow('unsupported JWS algorithm')
+    const crit = sm2.signJws('hello', keypair.privateKey, { header: { crit: ['exp'], exp: 1 } })
+    expect(() => sm2.verifyJws(crit, keypair.publicKey)).toThrow('critical header')
+  })
+})
+
+describe('jws: json serialization', () => {
+  it('sign with multiple signers and verify', () => {
+    const jws = sm2.signJwsJson('hello json', [
+      { privateKey: keypair.privateKey, header: { kid: 'a' }, unprotectedHeader: { note: 'first' } },
+      { privateKey: another.privateKey, header: { kid: 'b' }, userId: 'bob' },
+    ])
+    expect(jws.signatures!.length).toBe(2)
+    const first = sm2.verifyJwsJson(jws, keypair.publicKey)
+    expect(first.protectedHeader.kid).toBe('a')
+    expect(first.unprotectedHeader).toEqual({ note: 'first' })
+    expect(arrayToUtf8(first.payload)).toBe('hello json')
+    expect(sm2.verifyJwsJson(JSON.stringify(jws), another.publicKey, { userId: 'bob' }).protectedHeader.kid).toBe('b')
+    expect(() => sm2.verifyJwsJson(jws, sm2.generateKeyPairHex().publicKey)).toThrow('JWS signature verification failed')
+  })
+
+  it('verify flattened serialization', () => {
+    const [signature] = sm2.signJwsJson('flat', [{ privateKey: keypair.privateKey }]).signatures!
+    const flattened = { payload: 'ZmxhdA', protected: signature.protected, signature: signature.signature }
+    expect(arrayToUtf8(sm2.verifyJwsJson(flattened, keypair.publicKey).payload)).toBe('flat')
+    expect(() => sm2.verifyJwsJson({ payload: 'ZmxhdA' }, keypair.publicKey)).toThrow('missing signatures')
+  })
+})
+
+describe('jwt', () => {
+  const now = new Date(Date.UTC(2030, 0, 1))
+  const seconds = now.getTime() / 1000
+
+  it('sign and verify claims', () => {
+    const token = sm2.signJwt({
+      iss: 'issuer', sub: 'user', aud: ['api', 'web'], exp: seconds + 60, nbf: seconds - 60,
+    }, keypair.privateKey, { header: { kid: 'key-1' } })
+    const result = sm2.verifyJwt(token, keypair.publicKey, { currentTime: now, audience: 'api', issuer: 'issuer' })
+    expect(result.protectedHeader).toEqual({ alg: 'SM2SM3', typ: 'JWT', kid: 'key-1' })
+    expect(result.claims.sub).toBe('user')
+  })
+
+  it('check exp, nbf, aud and iss', () => {
+    const token = sm2.signJwt({
+      iss: 'issuer', aud: 'api', exp: seconds, nbf: seconds - 60,
+    }, keypair.privateKey)
+    expect(() => sm2.verifyJwt(token, keypair.publicKey, { currentTime: now })).toThrow('JWT expired')
+    expect(sm2.verifyJwt(token, keypair.publicKey, { currentTime: now, clockTolerance: 30 }).claims.aud).toBe('api')
+    expect(() => sm2.verifyJwt(token, keypair.publicKey, { currentTime: new Date((seconds - 120) * 1000) })).toThrow('JWT not active yet')
+    expect(() => sm2.verifyJwt(token, keypair.publicKey, { currentTime: new Date((seconds - 1) * 1000), audience: ['web'] })).toThrow('JWT audience mismatch')
+    expect(() => sm2.verifyJwt(token, keypair.publicKey, { currentTime: new Date((seconds - 1) * 1000), issuer: 'other' })).toThrow('JWT issuer mismatch')
+    const noAud = sm2.signJwt({}, keypair.privateKey)
+    expect(() => sm2.verifyJwt(noAud, keypair.publicKey, { audience: 'api' })).toThrow('JWT audience mismatch')
+  })
+
+  it('reject non object claims', () => {
+    const jws = sm2.signJws('[1,2]', keypair.privateKey)
+    expect(() => sm2.verifyJwt(jws, keypair.publicKey)).toThrow('claims are not a JSON object')
+    const text = sm2.signJws('not json', keypair.privateKey)
+    expect(() => sm2.verifyJwt(text, keypair.publicKey)).toThrow('claims are not JSON')
+  })
+})
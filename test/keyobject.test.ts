@@ -0,0 +1,157 @@
+import { sm2 } from '@/index'
+import { expect, it, describe } from 'vitest'
+
+const msg = 'hello world! 我是 juneandgreen.'
+
+describe('sm2: key objects', () => {
+    it('import and export keys', () => {
+        const keypair = sm2.generateKeyPairHex()
+        const privateKey = sm2.SM2PrivateKey.fromHex(keypair.privateKey)
+        expect(privateKey.toHex()).toBe(keypair.privateKey)
+        expect(sm2.SM2PrivateKey.fromBytes(privateKey.toBytes()).toHex()).toBe(keypair.privateKey)
+        expect(privateKey.publicKey.toHex()).toBe(keypair.publicKey)
+        // publicKey 只计算一次
+        expect(privateKey.publicKey).toBe(privateKey.publicKey)
+
+        const publicKey = sm2.SM2PublicKey.fromHex(keypair.publicKey)
+        expect(publicKey.equals(privateKey.publicKey)).toBe(true)
+        expect(sm2.SM2PublicKey.fromHex(publicKey.toHex(true)).toHex()).toBe(keypair.publicKey)
+        expect(sm2.SM2PublicKey.fromHex(keypair.publicKey.substring(2)).toHex()).toBe(keypair.publicKey)
+        expect(sm2.SM2PublicKey.fromBytes(publicKey.toBytes()).toHex()).toBe(keypair.publicKey)
+        expect(sm2.getPublicKeyFromPrivateKey(privateKey)).toBe(keypair.publicKey)
+
+        expect(sm2.SM2PrivateKey.generate().publicKey.toHex().length).toBe(130)
+        expect(() => sm2.SM2PrivateKey.fromHex('00')).toThrow('invalid private key')
+        expect(() => sm2.SM2PrivateKey.fromHex('xyz')).toThrow('invalid private key')
+        expect(() => sm2.SM2PublicKey.fromHex('04' + '11'.repeat(64))).toThrow('invalid public key')
+    })
+
+    it('cache Z per userId', () => {
+        const { publicKey } = sm2.SM2PrivateKey.generate()
+        const z = publicKey.getZ()
+        expect(publicKey.getZ()).toBe(z)
+        expect(z).toEqual(sm2.getZ(publicKey.toHex()))
+        expect(publicKey.getZ('alice')).toEqual(sm2.getZ(publicKey.toHex(), 'alice'))
+        expect(sm2.getZ(publicKey, 'alice')).toBe(publicKey.getZ('alice'))
+    })
+
+    it('sign, verify, encrypt and decrypt with methods', () => {
+        const privateKey = sm2.SM2PrivateKey.generate()
+        const { publicKey } = privateKey
+        for (const options of [{}, { hash: true }, { hash: true, der: true, userId: 'alice' }]) {
+            const signature = privateKey.sign(msg, options)
+            expect(publicKey.verify(msg, signature, options)).toBe(true)
+            expect(sm2.doVerifySignature(msg, signature, publicKey.toHex(), options)).toBe(true)
+        }
+        expect(privateKey.sign(msg, { hash: true, deterministic: true }))
+            .toBe(sm2.doSignature(msg, privateKey.toHex(), { hash: true, deterministic: true }))
+
+        for (const options of [{}, { cipherMode: 0 }, { asn1: true }]) {
+            const encryptData = publicKey.encrypt(msg, options)
+            expect(privateKey.decrypt(encryptData, options)).toBe(msg)
+            expect(sm2.doDecrypt(encryptData, privateKey.toHex(), options.cipherMode ?? 1, options)).toBe(msg)
+        }
+        expect(privateKey.decrypt(publicKey.encrypt(msg), { output: 'array' })).toEqual(sm2.hexToArray(sm2.utf8ToHex(msg)))
+    })
+
+    it('accept key objects in existing functions', () => {
+        const privateKey = sm2.SM2PrivateKey.generate()
+        const { publicKey } = privateKey
+        const signature = sm2.doSignature(msg, privateKey, { hash: true, publicKey })
+        expect(sm2.doVerifySignature(msg, signature, publicKey, { hash: true })).toBe(true)
+        expect(sm2.verifyBytes(sm2.hexToArray(sm2.utf8ToHex(msg)), sm2.hexToArray(signature), publicKey, { hash: true })).toBe(true)
+        expect(sm2.doDecrypt(sm2.doEncrypt(msg, publicKey), privateKey)).toBe(msg)
+        expect(sm2.doDecryptAuto(sm2.doEncrypt(msg, publicKey, 0), privateKey).plaintext).toBe(msg)
+        expect(sm2.getHash(sm2.utf8ToHex(msg), publicKey)).toBe(sm2.getHash(sm2.utf8ToHex(msg), publicKey.toHex()))
+
+        const signer = sm2.createSigner(privateKey)
+        const streamed = signer.update(msg).sign()
+        expect(sm2.createVerifier(publicKey).update(msg).verify(streamed)).toBe(true)
+        expect(sm2.verifyBatch([
+            { msg, signature, publicKey },
+            { msg, signature: streamed, publicKey },
+            { msg, signature, publicKey: publicKey.toBytes() },
+            { msg, signature, publicKey: publicKey.point },
+        ], { hash: true })).toBe(true)
+        expect(sm2.getHash(sm2.utf8ToHex(msg), publicKey.point)).toBe(sm2.getHash(sm2.utf8ToHex(msg), publicKey.toHex()))
+    })
+
+    it('accept key objects in key exchange', () => {
+        const keyA = sm2.SM2PrivateKey.generate()
+        const keyB = sm2.SM2PrivateKey.generate()
+        const ephemeralA = sm2.SM2PrivateKey.generate()
+        const ephemeralB = sm2.generateKeyPairHex()
+        const hexA = { privateKey: keyA.toHex(), publicKey: keyA.publicKey.toHex() }
+        const expected = sm2.calculateSharedKey(hexA, { privateKey: ephemeralA.toHex(), publicKey: ephemeralA.publicKey.toHex() }, keyB.publicKey.toHex(), ephemeralB.publicKey, 16)
+        expect(sm2.calculateSharedKey(keyA, ephemeralA, keyB.publicKey, ephemeralB.publicKey, 16)).toEqual(expected)
+        expect(sm2.calculateSharedKeyWithConfirmation(keyA, ephemeralA, keyB.publicKey.point, ephemeralB.publicKey, 16).sharedKey).toEqual(expected)
+
+        const initiator = new sm2.SM2KeyExchange('initiator', { keypair: keyA, peerPublicKey: keyB.publicKey, keyLength: 16, confirm: true })
+        const responder = new sm2.SM2KeyExchange('responder', { keypair: keyB, peerPublicKey: hexA.publicKey, keyLength: 16, confirm: true })
+        const reply = responder.respond(initiator.start())
+        responder.confirm(initiator.finish(reply)!)
+        expect(initiator.getSharedKey()).toEqual(responder.getSharedKey())
+    })
+
+    it('accept key objects in key export', () => {
+        const privateKey = sm2.SM2PrivateKey.generate()
+        const { publicKey } = privateKey
+        expect(sm2.exportPrivateKeyPkcs8(privateKey)).toBe(sm2.exportPrivateKeyPkcs8(privateKey.toHex()))
+        expect(sm2.exportPrivateKeySec1(privateKey, { publicKey })).toBe(sm2.exportPrivateKeySec1(privateKey.toHex()))
+        expect(sm2.exportPublicKeySpki(publicKey)).toBe(sm2.exportPublicKeySpki(publicKey.toHex()))
+        expect(sm2.exportPublicKeySpki(publicKey.point)).toBe(sm2.exportPublicKeySpki(publicKey.toHex()))
+        const encrypted = sm2.exportEncryptedPrivateKey(privateKey, 'password', { iterations: 1000 })
+        expect(sm2.importEncryptedPrivateKey(encrypted, 'password')).toEqual({ privateKey: privateKey.toHex(), publicKey: publicKey.toHex() })
+        expect(sm2.exportPublicKeyJwk(publicKey)).toEqual(sm2.exportPublicKeyJwk(publicKey.toHex()))
+        expect(sm2.exportPrivateKeyJwk(privateKey)).toEqual(sm2.exportPrivateKeyJwk(privateKey.toHex()))
+        expect(sm2.encodePublicKeyBlob(publicKey)).toEqual(sm2.encodePublicKeyBlob(publicKey.toHex()))
+        expect(sm2.encodePrivateKeyBlob(privateKey)).toEqual(sm2.encodePrivateKeyBlob(privateKey.toHex()))
+
+        const device = sm2.SM2PrivateKey.generate()
+        const blob = sm2.encodeEnvelopedKeyBlob(privateKey, device.publicKey)
+        expect(sm2.openEnvelopedKeyBlob(blob, device)).toEqual({ privateKey: privateKey.toHex(), publicKey: publicKey.toHex() })
+    })
+
+    it('accept key objects in certificates, CRLs and CMS', () => {
+        const privateKey = sm2.SM2PrivateKey.generate()
+        const { publicKey } = privateKey
+        const csr = sm2.createCertificationRequest({ subject: { CN: 'Key Object' }, privateKey })
+        expect(sm2.verifyCertificationRequest(csr)).toBe(true)
+        expect(sm2.parseCertificationRequest(csr).publicKey).toBe(publicKey.toHex())
+
+        const certificate = sm2.createCertificate({ subject: { CN: 'Key Object' }, publicKey, issuerPrivateKey: privateKey })
+        expect(sm2.verifyCertificate(certificate, publicKey)).toBe(true)
+        expect(sm2.parseCertificate(certificate).publicKey).toBe(publicKey.toHex())
+        expect(sm2.verifyCrl(sm2.createCrl({ issuer: certificate, issuerPrivateKey: privateKey }), publicKey.point)).toBe(true)
+
+        expect(sm2.verifySignedData(sm2.createSignedData(msg, { certificate, privateKey }))).toBe(true)
+        const enveloped = sm2.createEnvelopedData(msg, { recipients: [certificate] })
+        expect(sm2.arrayToUtf8(sm2.openEnvelopedData(enveloped, { certificate, privateKey }))).toBe(msg)
+    })
+
+    it('accept key objects in JWS, JWT and JWE', () => {
+        const privateKey = sm2.SM2PrivateKey.generate()
+        const { publicKey } = privateKey
+        const jws = sm2.signJws(msg, privateKey, { publicKey })
+        expect(sm2.arrayToUtf8(sm2.verifyJws(jws, publicKey).payload)).toBe(msg)
+        expect(sm2.verifyJws(jws, publicKey.point).protectedHeader.alg).toBe('SM2SM3')
+        const json = sm2.signJwsJson(msg, [{ privateKey }])
+        expect(sm2.arrayToUtf8(sm2.verifyJwsJson(json, publicKey).payload)).toBe(msg)
+        const jwt = sm2.signJwt({ sub: 'key object' }, privateKey)
+        expect(sm2.verifyJwt(jwt, publicKey).claims.sub).toBe('key object')
+
+        const jwe = sm2.encryptJwe(msg, { publicKey })
+        expect(sm2.arrayToUtf8(sm2.decryptJwe(jwe, { privateKey }).plaintext)).toBe(msg)
+        expect(sm2.arrayToUtf8(sm2.decryptJwe(sm2.encryptJwe(msg, { publicKey: publicKey.point }), { privateKey: privateKey.toHex() }).plaintext)).toBe(msg)
+    })
+
+    it('accept key objects in collaborative signing', () => {
+        const clientShare = sm2.generateKeyShare()
+        const serverShare = sm2.generateKeyShare()
+        const publicKey = sm2.SM2PublicKey.fromHex(sm2.combinePublicKey(clientShare.privateKey, serverShare.publicKey))
+        const client = new sm2.SM2CollaborativeSign('client', { privateKeyShare: clientShare.privateKey, publicKey, hash: true })
+        const server = new sm2.SM2CollaborativeSign('server', { privateKeyShare: serverShare.privateKey })
+        const signature = client.finish(server.respond(client.start(msg)))
+        expect(publicKey.verify(msg, signature, { hash: true })).toBe(true)
+    })
+})
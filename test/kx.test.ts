@@ -159,4 +159,162 @@ describe('key exchange', () => {
     )
     console.log('derived', bytesToHex(derived))
   })
+  it('agree a key with key confirmation', () => {
+    const fromA = sm2.calculateSharedKeyWithConfirmation(
+      keyPairA,
+      ephemeralKeypairA,
+      keyPairB.publicKey,
+      ephemeralKeypairB.publicKey,
+      16,
+      false,
+      'alice@yahoo.com',
+      'bob@yahoo.com'
+    )
+    const fromB = sm2.calculateSharedKeyWithConfirmation(
+      keyPairB,
+      ephemeralKeypairB,
+      keyPairA.publicKey,
+      ephemeralKeypairA.publicKey,
+      16,
+      true,
+      'bob@yahoo.com',
+      'alice@yahoo.com'
+    )
+    expect(fromA.sharedKey).toEqual(fromB.sharedKey)
+    // 与不带确认的密钥交换结果一致
+    expect(fromA.sharedKey).toEqual(sm2.calculateSharedKey(
+      keyPairA,
+      ephemeralKeypairA,
+      keyPairB.publicKey,
+      ephemeralKeypairB.publicKey,
+      16,
+      false,
+      'alice@yahoo.com',
+      'bob@yahoo.com'
+    ))
+    // B -> A: SB，A 校验 S1 == SB
+    sm2.verifyKeyConfirmation(fromA.peerConfirmation, fromB.confirmation)
+    // A -> B: SA，B 校验 S2 == SA
+    sm2.verifyKeyConfirmation(fromB.peerConfirmation, bytesToHex(fromA.confirmation))
+    expect(bytesToHex(fromA.confirmation) === bytesToHex(fromB.confirmation)).toBe(false)
+  })
+  it('key confirmation: GB/T 32918.3 appendix A example', () => {
+    // 示例使用的是标准中的 Fp-256 测试曲线，这里只校验确认值和共享密钥的杂凑输入
+    const xyU = hexToBytes(
+      '47C826534DC2F6F1FBF28728DD658F21E174F48179ACEF2900F8B7F566E40905'
+      + '2AF86EFE732CF12AD0E09A1F2556CC650D9CCCE3E249866BBB5C6846A4C4A295'
+    )
+    const ZA = hexToBytes('E4D1D0C3CA4C7F11BC8FF8CB3F4C02A78F108FA098E51A668487240F75E20F31')
+    const ZB = hexToBytes('6B4B6D0E276691BD4A11BF72F4FB501AE309FDACB72FA6CC336E6656119ABD67')
+    const RA = hexToBytes(
+      '6CB5633816F4DD560B1DEC458310CBCC6856C09505324A6D23150C408F162BF0'
+      + '0D6FCF62F1036C0A1B6DACCF57399223A65F7D7BF2D9637E5BBBEB857961BF1A'
+    )
+    const RB = hexToBytes(
+      '1799B2A2C778295300D9A2325C686129B8F2B5337B3DCF4514E8BBC19D900EE5'
+      + '54C9288C82733EFDF7808AE7F27D0E732F7C73A7D9AC98B7D8740A91D0DB3CF4'
+    )
+    expect(bytesToHex(kdf(concatBytes(xyU, ZA, ZB), 16))).toBe('55b0ac62a6b927ba23703832c853ded4')
+    const { S1, S2 } = sm2.calculateKeyConfirmation(xyU, ZA, ZB, RA, RB)
+    // S1 = SB，S2 = SA
+    expect(bytesToHex(S1)).toBe('284c8f198f141b502e81250f1581c7e9eeb4ca6990f9e02df388b45471f5bc5c')
+    expect(bytesToHex(S2)).toBe('23444daf8ed7534366cb901c84b3bdbb63504f4065c1116c91a4c00697e6cf7a')
+  })
+  it('key confirmation detects mismatched identity', () => {
+    const fromA = sm2.calculateSharedKeyWithConfirmation(
+      keyPairA,
+      ephemeralKeypairA,
+      keyPairB.publicKey,
+      ephemeralKeypairB.publicKey,
+      16,
+      false,
+      'alice@yahoo.com',
+      'bob@yahoo.com'
+    )
+    const fromB = sm2.calculateSharedKeyWithConfirmation(
+      keyPairB,
+      ephemeralKeypairB,
+      keyPairA.publicKey,
+      ephemeralKeypairA.publicKey,
+      16,
+      true,
+      'bob@yahoo.com',
+      'mallory@yahoo.com'
+    )
+    expect(() => sm2.verifyKeyConfirmation(fromA.peerConfirmation, fromB.confirmation)).toThrow('key confirmation mismatch')
+    expect(() => sm2.verifyKeyConfirmation(fromB.peerConfirmation, fromA.confirmation)).toThrow('key confirmation mismatch')
+  })
+})
+
+describe('key exchange session', () => {
+  const keyPairA = sm2.generateKeyPairHex()
+  const keyPairB = sm2.generateKeyPairHex()
+  const createSessions = (confirm: boolean) => {
+    const initiator = new sm2.SM2KeyExchange('initiator', {
+      keypair: keyPairA,
+      peerPublicKey: keyPairB.publicKey,
+      keyLength: 16,
+      id: 'alice@yahoo.com',
+      peerId: 'bob@yahoo.com',
+      confirm,
+    })
+    const responder = new sm2.SM2KeyExchange('responder', {
+      keypair: keyPairB,
+      peerPublicKey: keyPairA.publicKey,
+      keyLength: 16,
+      id: 'bob@yahoo.com',
+      peerId: 'alice@yahoo.com',
+      confirm,
+    })
+    return { initiator, responder }
+  }
+  it('agree a key without confirmation', () => {
+    const { initiator, responder } = createSessions(false)
+    const msgA = initiator.start()
+    const msgB = responder.respond(msgA)
+    expect(msgB.confirmation).toBeUndefined()
+    expect(initiator.finish(msgB)).toBeUndefined()
+    expect(initiator.getSharedKey()).toEqual(responder.getSharedKey())
+  })
+  it('agree a key with confirmation', () => {
+    const { initiator, responder } = createSessions(true)
+    const msgA = initiator.start()
+    const msgB = responder.respond(msgA)
+    expect(msgB.confirmation).toHaveLength(64)
+    // 确认完成前不能获取密钥
+    expect(() => responder.getSharedKey()).toThrow('key exchange is not completed')
+    const msgA2 = initiator.finish(msgB)!
+    responder.confirm(msgA2)
+    expect(initiator.getSharedKey()).toEqual(responder.getSharedKey())
+  })
+  it('throw on out-of-order steps and reuse', () => {
+    const { initiator, responder } = createSessions(true)
+    expect(() => initiator.finish({ ephemeralPublicKey: keyPairB.publicKey })).toThrow('out of order')
+    expect(() => initiator.respond({ ephemeralPublicKey: keyPairB.publicKey })).toThrow('can only be called by the responder')
+    expect(() => responder.start()).toThrow('can only be called by the initiator')
+    const msgA = initiator.start()
+    expect(() => initiator.start()).toThrow('out of order')
+    const msgB = responder.respond(msgA)
+    expect(() => responder.respond(msgA)).toThrow('out of order')
+    responder.confirm(initiator.finish(msgB)!)
+    expect(() => initiator.finish(msgB)).toThrow('out of order')
+  })
+  it('cannot retry after a failed step', () => {
+    const { initiator, responder } = createSessions(true)
+    const invalidPoint = { ephemeralPublicKey: '04' + '11'.repeat(64) }
+    expect(() => responder.respond(invalidPoint)).toThrow()
+    expect(() => responder.respond(initiator.start())).toThrow('out of order')
+    expect(() => initiator.finish(invalidPoint)).toThrow()
+    expect(() => initiator.finish(invalidPoint)).toThrow('out of order')
+    expect(() => initiator.getSharedKey()).toThrow('key exchange is not completed')
+  })
+  it('throw on confirmation mismatch', () => {
+    const { initiator, responder } = createSessions(true)
+    const msgA = initiator.start()
+    const msgB = responder.respond(msgA)
+    expect(() => initiator.finish({ ...msgB, confirmation: '00'.repeat(32) })).toThrow('key confirmation mismatch')
+    expect(() => initiator.getSharedKey()).toThrow('key exchange is not completed')
+    expect(() => responder.confirm({ confirmation: '00'.repeat(32) })).toThrow('key confirmation mismatch')
+    expect(() => responder.getSharedKey()).toThrow('key exchange is not completed')
+  })
 })
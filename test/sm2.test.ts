@@ -1,6 +1,7 @@
 import { sm2 } from '@/index'
 import { arrayToHex, hexToArray } from '@/sm2'
-import { expect, it, describe, beforeEach } from 'vitest'
+import { field } from '@/sm2/ec'
+import { expect, it, describe, beforeEach, afterEach } from 'vitest'
 
 const cipherMode = 1 // 1 - C1C3C2，0 - C1C2C3
 
@@ -316,4 +317,409 @@ describe('sm2: chinese encoding', () => {
             verifyResult,
         })
     })
-})
\ No newline at end of file
+})
+describe('sm2: deterministic signature', () => {
+    const privateKey = '3945208f7b2144b13f36e38ac6d39f95889393692860b51a42fb81ef4df7c5b8'
+    const publicKey = sm2.getPublicKeyFromPrivateKey(privateKey)
+    // sm3('message digest')
+    const digest = hexToArray('c522a942e89bd80d97dd666e7a5531b36188c9817149e9b258dfe51ece98ed77')
+
+    it('derive k with HMAC-SM3', () => {
+        const sigValueHex = sm2.doSignature(digest, privateKey, { deterministic: true })
+        expect(sigValueHex).toBe('57c837e0d6d4ea51ff9c62d923a506e2d93a4543be17bab6b24b24de56b3d9094e9c4171c0f2c82554c43ce57b26839638f2655cd6c0e094c364c5a2fcb25434')
+        expect(sm2.doVerifySignature(digest, sigValueHex, publicKey)).toBe(true)
+    })
+
+    it('mix in extra entropy', () => {
+        const extraEntropy = arrayToHex(Array.from({ length: 32 }, (_, i) => i))
+        expect(sm2.doSignature(digest, privateKey, { extraEntropy })).toBe('75018ece2bd07c8a326ce484eeef2ef60171adb91b5cdaee9edaf61773d36d6c08104d04de8df39ded4283ed0a6f8836d9a5ee1ec94178cf7283d6f7332a743a')
+        const sig1 = sm2.doSignature(msgString, privateKey, { hash: true, extraEntropy: true })
+        const sig2 = sm2.doSignature(msgString, privateKey, { hash: true, extraEntropy: true })
+        expect(sig1 === sig2).toBe(false)
+        expect(sm2.doVerifySignature(msgString, sig1, publicKey, { hash: true })).toBe(true)
+        expect(() => sm2.doSignature(digest, privateKey, { extraEntropy: '00' })).toThrow('extraEntropy should be 32 bytes')
+    })
+
+    it('reproducible with hash and der', () => {
+        const options = { hash: true, der: true, deterministic: true, userId: 'alice@example.com' }
+        const sigValueHex = sm2.doSignature(msgString, privateKey, options)
+        expect(sm2.doSignature(msgString, privateKey, options)).toBe(sigValueHex)
+        expect(sm2.doVerifySignature(msgString, sigValueHex, publicKey, options)).toBe(true)
+    })
+})
+
+describe('sm2: prehashed signature', () => {
+    it('compute e incrementally', (ctx) => {
+        const msg = 'SM国密2'.repeat(100)
+        const digest = sm2.createDigest(ctx.unCompressedPublicKey)
+        for (let i = 0; i < msg.length; i += 7) digest.update(msg.substring(i, i + 7))
+        const e = digest.digest()
+        expect(e).toBe(sm2.getHash(sm2.utf8ToHex(msg), ctx.unCompressedPublicKey))
+        expect(sm2.createDigest(ctx.compressedPublicKey, { userId: 'alice' }).update(hexToArray(sm2.utf8ToHex(msg))).digest())
+            .toBe(sm2.getHash(sm2.utf8ToHex(msg), ctx.unCompressedPublicKey, 'alice'))
+    })
+
+    it('sign and verify digest', (ctx) => {
+        const e = sm2.createDigest(ctx.unCompressedPublicKey).update(msgString).digest()
+        const sigValueHex = sm2.signDigest(e, ctx.privateKey)
+        expect(sm2.verifyDigest(e, sigValueHex, ctx.unCompressedPublicKey)).toBe(true)
+        // 与对原文做 sm3 杂凑的签名互通
+        expect(sm2.doVerifySignature(msgString, sigValueHex, ctx.unCompressedPublicKey, { hash: true })).toBe(true)
+        const derSignature = sm2.doSignature(msgString, ctx.privateKey, { hash: true, der: true })
+        expect(sm2.verifyDigest(hexToArray(e), derSignature, ctx.unCompressedPublicKey, { der: true })).toBe(true)
+        expect(sm2.verifyDigest(sm2.getHash(sm2.utf8ToHex('other'), ctx.unCompressedPublicKey), sigValueHex, ctx.unCompressedPublicKey)).toBe(false)
+    })
+
+    it('deterministic digest signature', () => {
+        const privateKey = '3945208f7b2144b13f36e38ac6d39f95889393692860b51a42fb81ef4df7c5b8'
+        expect(sm2.signDigest('c522a942e89bd80d97dd666e7a5531b36188c9817149e9b258dfe51ece98ed77', privateKey, { deterministic: true }))
+            .toBe('57c837e0d6d4ea51ff9c62d923a506e2d93a4543be17bab6b24b24de56b3d9094e9c4171c0f2c82554c43ce57b26839638f2655cd6c0e094c364c5a2fcb25434')
+        expect(() => sm2.signDigest('abcd', privateKey)).toThrow('digest should be 32 bytes')
+        expect(() => sm2.verifyDigest(new Uint8Array(31), '00', sm2.getPublicKeyFromPrivateKey(privateKey))).toThrow('digest should be 32 bytes')
+    })
+})
+
+describe('sm2: streaming signer and verifier', () => {
+    it('sign chunks and verify with doVerifySignature', (ctx) => {
+        const chunks = ['SM国密', '2', msgString, ''].map(item => hexToArray(sm2.utf8ToHex(item)))
+        const signer = sm2.createSigner(ctx.privateKey, { userId: 'alice' })
+        chunks.forEach(chunk => signer.update(chunk))
+        const sigValueHex = signer.sign()
+        expect(sm2.doVerifySignature('SM国密2' + msgString, sigValueHex, ctx.unCompressedPublicKey, { hash: true, userId: 'alice' })).toBe(true)
+
+        const verifier = sm2.createVerifier(ctx.compressedPublicKey, { userId: 'alice' })
+        chunks.forEach(chunk => verifier.update(chunk))
+        expect(verifier.verify(sigValueHex)).toBe(true)
+        expect(sm2.createVerifier(ctx.unCompressedPublicKey).update('SM国密2' + msgString).verify(sigValueHex)).toBe(false)
+    })
+
+    it('der and deterministic signatures', (ctx) => {
+        const sign = () => sm2.createSigner(ctx.privateKey, { publicKey: ctx.unCompressedPublicKey, deterministic: true }).update('abc').update('def').sign({ der: true })
+        const sigValueHex = sign()
+        expect(sign()).toBe(sigValueHex)
+        expect(sm2.doSignature('abcdef', ctx.privateKey, { hash: true, der: true, deterministic: true })).toBe(sigValueHex)
+        expect(sm2.createVerifier(ctx.unCompressedPublicKey).update('abcdef').verify(sigValueHex, { der: true })).toBe(true)
+    })
+})
+
+describe('sm2: batch verification', () => {
+    const keypairs = [sm2.generateKeyPairHex(), sm2.generateKeyPairHex(), sm2.generateKeyPairHex()]
+    const items = Array.from({ length: 12 }, (_, i) => {
+        const { privateKey, publicKey } = keypairs[i % keypairs.length]
+        const msg = msgString + i
+        return { msg, signature: sm2.doSignature(msg, privateKey, { hash: true, publicKey }), publicKey }
+    })
+
+    it('all valid', () => {
+        expect(sm2.verifyBatch(items, { hash: true })).toBe(true)
+        expect(sm2.verifyBatch(items, { hash: true, output: 'array' })).toEqual(items.map(() => true))
+        expect(sm2.verifyBatch([])).toBe(true)
+    })
+
+    it('find bad entries', () => {
+        const bad = items.slice()
+        bad[3] = { ...bad[3], msg: 'tampered' }
+        bad[7] = { ...bad[7], publicKey: keypairs[0].publicKey }
+        bad[8] = { ...bad[8], signature: 'not a signature' }
+        bad[10] = { ...bad[10], publicKey: '04' + '11'.repeat(64) }
+        expect(sm2.verifyBatch(bad, { hash: true })).toBe(false)
+        const results = sm2.verifyBatch(bad, { hash: true, output: 'array' })
+        expect(results.map((valid, i) => valid ? -1 : i).filter(i => i >= 0)).toEqual([3, 7, 8, 10])
+    })
+
+    it('mix valid and invalid entries with different key formats', () => {
+        const mixed = items.map((item, i) => {
+            // 不带 04 前缀的 16 进制公钥和字节公钥，与 doVerifySignature 相同
+            if (i % 3 === 1) return { ...item, publicKey: item.publicKey.substring(2) }
+            if (i % 3 === 2) return { ...item, publicKey: sm2.hexToArray(item.publicKey) }
+            return item
+        })
+        expect(sm2.verifyBatch(mixed, { hash: true })).toBe(true)
+        mixed[1] = { ...mixed[1], msg: 'tampered' }
+        mixed[6] = { ...mixed[6], signature: items[5].signature }
+        mixed[11] = { ...mixed[11], publicKey: '11'.repeat(64) }
+        const expected = mixed.map(({ msg, signature, publicKey }) => {
+            try {
+                return sm2.doVerifySignature(msg, signature, typeof publicKey === 'string' ? publicKey : sm2.arrayToHex(Array.from(publicKey)), { hash: true })
+            } catch (error) {
+                return false
+            }
+        })
+        expect(expected.map((valid, i) => valid ? -1 : i).filter(i => i >= 0)).toEqual([1, 6, 11])
+        expect(sm2.verifyBatch(mixed, { hash: true })).toBe(false)
+        expect(sm2.verifyBatch(mixed, { hash: true, output: 'array' })).toEqual(expected)
+    })
+
+    it('detect invalid signatures that cancel out in an unweighted sum', () => {
+        const { privateKey, publicKey } = keypairs[0]
+        const pair = [0, 1].map(i => {
+            const msg = msgString + i
+            const signature = sm2.doSignature(msg, privateKey, { hash: true, publicKey })
+            return { msg, r: BigInt('0x' + signature.substring(0, 64)), s: BigInt('0x' + signature.substring(64)) }
+        })
+        // s0 + d、s1 - d 使 s * G + t * P 分别偏移 ±d(G + P)，直接相加时互相抵消
+        const d = BigInt(12345)
+        const forged = pair.map(({ msg, r, s }, i) => ({
+            msg,
+            signature: sm2.leftPad(r.toString(16), 64) + sm2.leftPad((i ? field.sub(s, d) : field.add(s, d)).toString(16), 64),
+            publicKey,
+        }))
+        expect(sm2.verifyBatch(forged, { hash: true, output: 'array' })).toEqual([false, false])
+        expect(sm2.verifyBatch([...forged, ...items.slice(0, 2)], { hash: true })).toBe(false)
+    })
+
+    it('draw coefficients from the system random source', () => {
+        const { privateKey, publicKey } = keypairs[0]
+        // 随机数源可预测时，按下一个系数 a 构造 s0 + a * d、s1 - d，加权求和后互相抵消
+        const a = BigInt('0x' + arrayToHex(Array.from(sm2.createSeededRandomSource('seed')(8)))) + BigInt(1)
+        const d = BigInt(12345)
+        const forged = [field.mul(a, d), field.neg(d)].map((delta, i) => {
+            const msg = msgString + i
+            const signature = sm2.doSignature(msg, privateKey, { hash: true, publicKey })
+            const r = signature.substring(0, 64)
+            const s = field.add(BigInt('0x' + signature.substring(64)), delta)
+            return { msg, signature: r + sm2.leftPad(s.toString(16), 64), publicKey }
+        })
+        try {
+            sm2.setRandomSource(sm2.createSeededRandomSource('seed'))
+            expect(sm2.verifyBatch(forged, { hash: true })).toBe(false)
+        } finally {
+            sm2.setRandomSource(null)
+        }
+    })
+
+    it('match doVerifySignature options', (ctx) => {
+        const compressed = sm2.precomputePublicKey(ctx.unCompressedPublicKey)
+        const der = sm2.doSignature(msgString, ctx.privateKey, { der: true })
+        const withId = sm2.doSignature(msgString, ctx.privateKey, { hash: true, userId: 'alice' })
+        expect(sm2.verifyBatch([
+            { msg: msgString, signature: der, publicKey: ctx.compressedPublicKey },
+            { msg: msgString, signature: der, publicKey: compressed },
+        ], { der: true })).toBe(true)
+        expect(sm2.verifyBatch([
+            { msg: msgString, signature: withId, publicKey: ctx.unCompressedPublicKey, userId: 'alice' },
+            { msg: msgString, signature: withId, publicKey: ctx.unCompressedPublicKey },
+        ], { hash: true, output: 'array' })).toEqual([true, false])
+    })
+})
+
+describe('sm2: strict decryption', () => {
+    function decryptError(fn: () => unknown) {
+        try {
+            fn()
+        } catch (error) {
+            expect(error).toBeInstanceOf(sm2.SM2DecryptError)
+            return (error as InstanceType<typeof sm2.SM2DecryptError>).code
+        }
+        throw new Error('expected SM2DecryptError')
+    }
+
+    it('decrypt like doDecrypt', (ctx) => {
+        for (const mode of [0, 1]) {
+            for (const asn1 of [false, true]) {
+                const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, mode, { asn1 })
+                expect(sm2.doDecrypt(encryptData, ctx.privateKey, mode, { asn1, strict: true })).toBe(msgString)
+            }
+        }
+        // 空明文可以与解密失败区分
+        const empty = sm2.doEncrypt('', ctx.unCompressedPublicKey)
+        expect(sm2.doDecrypt(empty, ctx.privateKey, 1, { strict: true, output: 'array' })).toEqual(new Uint8Array())
+    })
+
+    it('throw typed errors', (ctx) => {
+        const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey)
+        const wrongKey = sm2.generateKeyPairHex().privateKey
+        expect(sm2.doDecrypt(encryptData, wrongKey)).toBe('')
+        expect(decryptError(() => sm2.doDecrypt(encryptData, wrongKey, 1, { strict: true }))).toBe('HASH_MISMATCH')
+        expect(decryptError(() => sm2.doDecrypt(encryptData.substring(0, 190), ctx.privateKey, 1, { strict: true }))).toBe('TRUNCATED')
+        expect(decryptError(() => sm2.doDecrypt('zz' + encryptData.substring(2), ctx.privateKey, 1, { strict: true }))).toBe('INVALID_ENCODING')
+        expect(decryptError(() => sm2.doDecrypt('11'.repeat(64) + encryptData.substring(128), ctx.privateKey, 1, { strict: true }))).toBe('INVALID_POINT')
+        expect(decryptError(() => sm2.doDecrypt('00'.repeat(64) + encryptData.substring(128), ctx.privateKey, 1, { strict: true }))).toBe('POINT_AT_INFINITY')
+    })
+
+    it('throw typed errors for ASN.1 ciphertexts', (ctx) => {
+        const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, 1, { asn1: true })
+        const options = { asn1: true, strict: true }
+        expect(decryptError(() => sm2.doDecrypt(encryptData.substring(0, encryptData.length - 2), ctx.privateKey, 1, options))).toBe('TRUNCATED')
+        // SEQUENCE { INTEGER 0, INTEGER 0, OCTET STRING (32 字节), OCTET STRING }
+        const infinity = '302a' + '020100' + '020100' + '0420' + '00'.repeat(32) + '0400'
+        expect(decryptError(() => sm2.doDecrypt(infinity, ctx.privateKey, 1, options))).toBe('POINT_AT_INFINITY')
+        const badPoint = '302a' + '020101' + '020101' + '0420' + '00'.repeat(32) + '0400'
+        expect(decryptError(() => sm2.doDecrypt(badPoint, ctx.privateKey, 1, options))).toBe('INVALID_POINT')
+        const shortHash = '3029' + '020101' + '020101' + '041f' + '00'.repeat(31) + '0400'
+        expect(decryptError(() => sm2.doDecrypt(shortHash, ctx.privateKey, 1, options))).toBe('INVALID_ASN1')
+        expect(decryptError(() => sm2.doDecrypt('3003020101', ctx.privateKey, 1, options))).toBe('INVALID_ASN1')
+        expect(decryptError(() => sm2.doDecrypt(encryptData, sm2.generateKeyPairHex().privateKey, 1, options))).toBe('HASH_MISMATCH')
+    })
+})
+
+describe('sm2: ciphertext format detection', () => {
+    it('encrypt with C1 formats', (ctx) => {
+        const uncompressed = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, 1, { c1Format: 'uncompressed' })
+        expect(uncompressed.substring(0, 2)).toBe('04')
+        expect(sm2.doDecrypt(uncompressed, ctx.privateKey, 1, { c1Format: 'uncompressed' })).toBe(msgString)
+        // 与 BouncyCastle 等带 04 前缀的实现互通
+        expect(sm2.doDecrypt(uncompressed.substring(2), ctx.privateKey)).toBe(msgString)
+
+        const compressed = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, 0, { c1Format: 'compressed' })
+        expect(['02', '03']).toContain(compressed.substring(0, 2))
+        expect(compressed.length).toBe(uncompressed.length - 64)
+        expect(sm2.doDecrypt(compressed, ctx.privateKey, 0, { c1Format: 'compressed', strict: true })).toBe(msgString)
+    })
+
+    it('detect and decrypt every format', (ctx) => {
+        for (const cipherMode of [1, 0]) {
+            const asn1Data = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, cipherMode, { asn1: true })
+            expect(sm2.doDecryptAuto(asn1Data, ctx.privateKey)).toEqual({ plaintext: msgString, format: { cipherMode, asn1: true } })
+            for (const c1Format of ['raw', 'uncompressed', 'compressed'] as const) {
+                const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, cipherMode, { c1Format })
+                const { plaintext, format } = sm2.doDecryptAuto(encryptData, ctx.privateKey, { output: 'array' })
+                expect(plaintext).toEqual(hexToArray(sm2.utf8ToHex(msgString)))
+                expect(format).toEqual({ cipherMode, asn1: false, c1Format })
+            }
+        }
+    })
+
+    it('throw when no format matches', (ctx) => {
+        const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey)
+        expect(() => sm2.doDecryptAuto(encryptData, sm2.generateKeyPairHex().privateKey)).toThrow(sm2.SM2DecryptError)
+        expect(() => sm2.doDecryptAuto(encryptData, sm2.generateKeyPairHex().privateKey)).toThrow('C3 does not match')
+        expect(() => sm2.doDecryptAuto('abcd', ctx.privateKey)).toThrow('truncated')
+        expect(() => sm2.doDecryptAuto('xyz', ctx.privateKey)).toThrow('not a hex string')
+        expect(() => sm2.doDecryptAuto('05' + '11'.repeat(128), ctx.privateKey)).toThrow('no known format has a valid C1')
+    })
+})
+
+describe('sm2: byte API', () => {
+    it('encrypt and decrypt bytes', () => {
+        const { privateKey, publicKey } = sm2.generateKeyPairBytes()
+        expect(privateKey.length).toBe(32)
+        expect(publicKey.length).toBe(65)
+        const msg = hexToArray(sm2.utf8ToHex(msgString))
+        for (const options of [{}, { cipherMode: 0 }, { asn1: true }, { asn1: true, cipherMode: 0 }, { c1Format: 'compressed' as const }]) {
+            const encryptData = sm2.encryptBytes(msg, publicKey, options)
+            expect(sm2.decryptBytes(encryptData, privateKey, options)).toEqual(msg)
+            expect(sm2.decryptBytes(encryptData, privateKey, { ...options, strict: true })).toEqual(msg)
+        }
+        // 64 字节的 x || y 以及压缩公钥
+        expect(sm2.decryptBytes(sm2.encryptBytes(msg, publicKey.subarray(1)), privateKey)).toEqual(msg)
+        expect(sm2.decryptBytes(sm2.encryptBytes(msg, hexToArray(sm2.compressPublicKeyHex(arrayToHex(Array.from(publicKey))))), privateKey)).toEqual(msg)
+        expect(sm2.decryptBytes(sm2.encryptBytes(msg, publicKey), sm2.generateKeyPairBytes().privateKey)).toBe(null)
+    })
+
+    it('interoperate with the hex API', (ctx) => {
+        const privateKey = hexToArray(ctx.privateKey)
+        const publicKey = hexToArray(ctx.unCompressedPublicKey)
+        const msg = hexToArray(sm2.utf8ToHex(msgString))
+        for (const asn1 of [false, true]) {
+            const encryptData = sm2.doEncrypt(msgString, ctx.unCompressedPublicKey, 1, { asn1 })
+            expect(sm2.decryptBytes(hexToArray(encryptData), privateKey, { asn1 })).toEqual(msg)
+            const encryptBytes = sm2.encryptBytes(msg, publicKey, { asn1 })
+            expect(sm2.doDecrypt(arrayToHex(Array.from(encryptBytes)), ctx.privateKey, 1, { asn1 })).toBe(msgString)
+        }
+    })
+
+    it('sign and verify bytes', (ctx) => {
+        const privateKey = hexToArray(ctx.privateKey)
+        const publicKey = hexToArray(ctx.unCompressedPublicKey)
+        const msg = hexToArray(sm2.utf8ToHex(msgString))
+        for (const options of [{}, { hash: true }, { der: true }, { hash: true, der: true, userId: 'alice' }]) {
+            const signature = sm2.signBytes(msg, privateKey, options)
+            if (!options.der) expect(signature.length).toBe(64)
+            expect(sm2.verifyBytes(msg, signature, publicKey, options)).toBe(true)
+            expect(sm2.doVerifySignature(msgString, arrayToHex(Array.from(signature)), ctx.unCompressedPublicKey, options)).toBe(true)
+            const sigValueHex = sm2.doSignature(msgString, ctx.privateKey, options)
+            expect(sm2.verifyBytes(msg, hexToArray(sigValueHex), publicKey, options)).toBe(true)
+        }
+        // 与 hex 接口的确定性签名相同
+        expect(arrayToHex(Array.from(sm2.signBytes(msg, privateKey, { hash: true, deterministic: true }))))
+            .toBe(sm2.doSignature(msgString, ctx.privateKey, { hash: true, deterministic: true }))
+        const signature = sm2.signBytes(msg, privateKey)
+        expect(sm2.verifyBytes(msg, signature.subarray(1), publicKey)).toBe(false)
+        expect(sm2.verifyBytes(msg, new Uint8Array(64), publicKey)).toBe(false)
+        expect(sm2.verifyBytes(hexToArray(sm2.utf8ToHex('other')), signature, publicKey)).toBe(false)
+    })
+
+    it('malformed DER signature fails verification instead of throwing', (ctx) => {
+        const der = sm2.doSignature(msgString, ctx.privateKey, { der: true })
+        for (const sigValueHex of ['', '30', der.substring(0, der.length - 10), '3006020101020101ff']) {
+            expect(sm2.doVerifySignature(msgString, sigValueHex, ctx.unCompressedPublicKey, { der: true })).toBe(false)
+            expect(sm2.verifyBytes(hexToArray(sm2.utf8ToHex(msgString)), hexToArray(sigValueHex), hexToArray(ctx.unCompressedPublicKey), { der: true })).toBe(false)
+        }
+    })
+
+    it('reject non-canonical DER encodings of a valid signature', (ctx) => {
+        // r 的最高位为 1 时，DER 编码需要前导 0，可以构造负数编码
+        let sigValueHex: string
+        do {
+            sigValueHex = sm2.doSignature(msgString, ctx.privateKey)
+        } while (parseInt(sigValueHex.substring(0, 2), 16) < 0x80)
+        const r = sigValueHex.substring(0, 64)
+        let s = sigValueHex.substring(64).replace(/^(00)+/, '')
+        if (parseInt(s.substring(0, 2), 16) >= 0x80) s = '00' + s
+        const tlv = (tag: string, value: string, head = '') => tag + head + (value.length / 2).toString(16).padStart(2, '0') + value
+        const integers = tlv('02', '00' + r) + tlv('02', s)
+        const canonical = tlv('30', integers)
+        const msg = hexToArray(sm2.utf8ToHex(msgString))
+        expect(sm2.doVerifySignature(msgString, canonical, ctx.unCompressedPublicKey, { der: true })).toBe(true)
+        expect(sm2.verifyBytes(msg, hexToArray(canonical), hexToArray(ctx.unCompressedPublicKey), { der: true })).toBe(true)
+        expect(sm2.verifyBatch([{ msg: msgString, signature: canonical, publicKey: ctx.unCompressedPublicKey }], { der: true })).toBe(true)
+
+        const malformed = [
+            tlv('31', integers), // 不是 SEQUENCE
+            tlv('30', tlv('03', '00' + r) + tlv('02', s)), // r 不是 INTEGER
+            tlv('30', tlv('02', '00' + r) + tlv('04', s)), // s 不是 INTEGER
+            canonical + '00', // SEQUENCE 之后有多余字节
+            tlv('30', integers + '0500'), // s 之后有多余字节
+            tlv('30', tlv('02', r) + tlv('02', s)), // r 编码为负数
+            tlv('30', tlv('02', '0000' + r) + tlv('02', s)), // r 不是最短编码
+            tlv('30', tlv('02', '00' + r) + tlv('02', '00' + s)), // s 不是最短编码
+            tlv('30', integers, '81'), // 长度不是短格式
+            tlv('30', tlv('02', '00' + r, '81') + tlv('02', s)),
+        ]
+        for (const der of malformed) {
+            expect(sm2.doVerifySignature(msgString, der, ctx.unCompressedPublicKey, { der: true })).toBe(false)
+            expect(sm2.verifyBytes(msg, hexToArray(der), hexToArray(ctx.unCompressedPublicKey), { der: true })).toBe(false)
+            expect(sm2.verifyBatch([{ msg: msgString, signature: der, publicKey: ctx.unCompressedPublicKey }], { der: true })).toBe(false)
+        }
+    })
+})
+
+describe('sm2: random source', () => {
+    afterEach(() => sm2.setRandomSource(null))
+
+    it('seeded source is reproducible', () => {
+        const source = sm2.createSeededRandomSource('seed')
+        // SM3(seed || 00000001) || SM3(seed || 00000002)
+        expect(arrayToHex(Array.from(source(20))) + arrayToHex(Array.from(source(20))))
+            .toBe('38b899f81f63dea9b7fb683ab0f0b1ee32b8847ba558af7a152e30c08cec6adb7f2c7e91c6943422')
+        expect(source(0).length).toBe(0)
+    })
+
+    it('use the custom source everywhere', () => {
+        const run = () => {
+            sm2.setRandomSource(sm2.createSeededRandomSource('seed'))
+            const keypair = sm2.generateKeyPairHex()
+            return {
+                keypair,
+                encryptData: sm2.doEncrypt(msgString, keypair.publicKey),
+                signature: sm2.doSignature(msgString, keypair.privateKey, { hash: true }),
+                point: sm2.getPoint().privateKey,
+                jwe: sm2.encryptJwe(msgString, { key: '0123456789abcdeffedcba9876543210' }),
+            }
+        }
+        const first = run()
+        expect(run()).toEqual(first)
+        expect(sm2.doDecrypt(first.encryptData, first.keypair.privateKey)).toBe(msgString)
+        expect(sm2.doVerifySignature(msgString, first.signature, first.keypair.publicKey, { hash: true })).toBe(true)
+
+        sm2.setRandomSource(null)
+        expect(sm2.generateKeyPairHex().privateKey === first.keypair.privateKey).toBe(false)
+    })
+
+    it('reject invalid sources', () => {
+        expect(() => sm2.setRandomSource('random' as any)).toThrow('random source should be a function')
+        sm2.setRandomSource(() => new Uint8Array(1))
+        expect(() => sm2.generateKeyPairHex()).toThrow('random source should return')
+    })
+})